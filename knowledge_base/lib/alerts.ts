@@ -0,0 +1,123 @@
+import Database from "better-sqlite3";
+import path from "path";
+import fs from "fs";
+import { parse } from "yaml";
+import type { KcsMetadata } from "./ingest";
+
+// Alert rules are read from the Prometheus rule files mounted into the monitoring stack
+const RULES_DIR = "docker/prometheus/rules";
+
+export interface DiscoveredAlertRule {
+  name: string;
+  groupName: string;
+  expr: string;
+  forDuration: string | null;
+  severity: string | null;
+  category: string | null;
+  summary: string | null;
+  description: string | null;
+  filePath: string;
+}
+
+interface RuleFile {
+  groups?: {
+    name: string;
+    rules?: {
+      alert?: string;
+      record?: string;
+      expr: string | number;
+      for?: string;
+      labels?: Record<string, string>;
+      annotations?: Record<string, string>;
+    }[];
+  }[];
+}
+
+export interface AlertSyncSummary {
+  rules: number;
+  removed: number;
+  links: number;
+  unknownAlerts: string[];
+}
+
+export function discoverAlertRules(repoRoot: string): DiscoveredAlertRule[] {
+  const dir = path.join(repoRoot, RULES_DIR);
+  if (!fs.existsSync(dir)) return [];
+  const rules: DiscoveredAlertRule[] = [];
+
+  for (const file of fs.readdirSync(dir).filter((f) => /\.ya?ml$/.test(f)).sort()) {
+    const filePath = path.posix.join(RULES_DIR, file);
+    const config = (parse(fs.readFileSync(path.join(dir, file), "utf8")) ?? {}) as RuleFile;
+    for (const group of config.groups ?? []) {
+      // Recording rules have no alert name and nothing to remediate
+      for (const rule of (group.rules ?? []).filter((r) => r.alert)) {
+        rules.push({
+          name: rule.alert!,
+          groupName: group.name,
+          expr: String(rule.expr).trim(),
+          forDuration: rule.for ?? null,
+          severity: rule.labels?.severity ?? null,
+          category: rule.labels?.category ?? null,
+          summary: rule.annotations?.summary ?? null,
+          description: rule.annotations?.description ?? null,
+          filePath,
+        });
+      }
+    }
+  }
+  return rules;
+}
+
+/**
+ * Upserts alert rules by name and drops rules that were deleted from the rule files.
+ * Script links come from the `alerts` list in the KCS sidecar and are rebuilt on every run.
+ */
+export function syncAlertRules(
+  db: Database.Database,
+  rules: DiscoveredAlertRule[],
+  metadata: Record<string, KcsMetadata>
+): AlertSyncSummary {
+  const upsert = db.prepare(
+    `INSERT INTO alert_rules (name, group_name, expr, for_duration, severity, category, summary, description, file_path)
+     VALUES (@name, @groupName, @expr, @forDuration, @severity, @category, @summary, @description, @filePath)
+     ON CONFLICT(name) DO UPDATE SET
+       group_name = excluded.group_name, expr = excluded.expr, for_duration = excluded.for_duration,
+       severity = excluded.severity, category = excluded.category, summary = excluded.summary,
+       description = excluded.description, file_path = excluded.file_path`
+  );
+  const selectRule = db.prepare(`SELECT id FROM alert_rules WHERE name = ?`);
+  const selectScript = db.prepare(`SELECT id FROM scripts WHERE name = ?`);
+  const insertLink = db.prepare(
+    `INSERT OR IGNORE INTO script_alert_rules (script_id, alert_rule_id) VALUES (?, ?)`
+  );
+
+  const summary: AlertSyncSummary = { rules: rules.length, removed: 0, links: 0, unknownAlerts: [] };
+
+  db.transaction(() => {
+    for (const rule of rules) upsert.run(rule);
+
+    const names = new Set(rules.map((r) => r.name));
+    const existing = db.prepare(`SELECT id, name FROM alert_rules`).all() as { id: number; name: string }[];
+    const remove = db.prepare(`DELETE FROM alert_rules WHERE id = ?`);
+    for (const row of existing.filter((r) => !names.has(r.name))) {
+      remove.run(row.id);
+      summary.removed++;
+    }
+
+    db.exec(`DELETE FROM script_alert_rules`);
+    for (const [scriptName, meta] of Object.entries(metadata)) {
+      const script = selectScript.get(scriptName) as { id: number } | undefined;
+      if (!script) continue;
+      for (const alert of meta.alerts ?? []) {
+        const rule = selectRule.get(alert) as { id: number } | undefined;
+        if (!rule) {
+          summary.unknownAlerts.push(`${scriptName} -> ${alert}`);
+          continue;
+        }
+        summary.links += insertLink.run(script.id, rule.id).changes;
+      }
+    }
+  })();
+
+  return summary;
+}
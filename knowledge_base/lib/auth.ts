@@ -0,0 +1,191 @@
+import Database from "better-sqlite3";
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { getDb } from "./db";
+
+// Local accounts and sessions. Passwords are hashed with scrypt and sessions are random tokens of
+// which only a SHA-256 hash is stored, so a copy of the database can't be used to sign in.
+
+// Ordered from least to most privileged; each role can do everything the roles before it can
+export const ROLES = ["viewer", "contributor", "coach", "publisher"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: "Viewer",
+  contributor: "Contributor",
+  coach: "KCS Coach",
+  publisher: "Publisher",
+};
+
+export const SESSION_DAYS = 14;
+
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{1,39}$/i;
+const MIN_PASSWORD_LENGTH = 8;
+const KEY_LENGTH = 64;
+
+export interface User {
+  id: number;
+  username: string;
+  display_name: string;
+  role: Role;
+  created_at: string;
+}
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function hasRole(user: User | null, role: Role): boolean {
+  return !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+}
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString("hex");
+  return `scrypt:${salt}:${scryptSync(password, salt, KEY_LENGTH).toString("hex")}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  return timingSafeEqual(scryptSync(password, salt, expected.length), expected);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+const USER_COLUMNS = `id, username, display_name, role, created_at`;
+
+export function getUsers(): User[] {
+  const db = getDb();
+  return db.prepare(`SELECT ${USER_COLUMNS} FROM users ORDER BY display_name`).all() as User[];
+}
+
+export function getUserById(id: number): User | undefined {
+  const db = getDb();
+  return db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).get(id) as User | undefined;
+}
+
+/**
+ * Points free-text author and contributor names at the account with that username. Display names
+ * are never matched: users choose their own, so they could claim anyone's articles. Runs when
+ * accounts are created and after the repository sync, which only knows names.
+ */
+export function linkUserRecords(db: Database.Database): void {
+  db.prepare(
+    `UPDATE contributors SET user_id = (
+       SELECT u.id FROM users u WHERE u.username = contributors.name
+     )
+     WHERE user_id IS NULL`
+  ).run();
+  db.prepare(
+    `UPDATE scripts SET author_id = (
+       SELECT u.id FROM users u WHERE u.username = scripts.author
+     )
+     WHERE author_id IS NULL AND author IS NOT NULL`
+  ).run();
+}
+
+function passwordProblem(password: string): string | null {
+  return password.length < MIN_PASSWORD_LENGTH ? `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters` : null;
+}
+
+export function createUser(username: string, displayName: string, password: string, role: Role): User {
+  const db = getDb();
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new AuthError("Usernames are 2–40 letters, digits, dots, dashes or underscores", 400);
+  }
+  const problem = passwordProblem(password);
+  if (problem) throw new AuthError(problem, 400);
+  if (db.prepare(`SELECT 1 FROM users WHERE username = ?`).get(username)) {
+    throw new AuthError(`The username ${username} is taken`, 409);
+  }
+
+  const id = db.transaction(() => {
+    const result = db
+      .prepare(`INSERT INTO users (username, display_name, password_hash, role) VALUES (?, ?, ?, ?)`)
+      .run(username, displayName.trim() || username, hashPassword(password), role);
+    linkUserRecords(db);
+    return Number(result.lastInsertRowid);
+  })();
+  return getUserById(id)!;
+}
+
+/** Changes a user's name, role or password. A new password signs the user out everywhere. */
+export function updateUser(
+  id: number,
+  changes: { displayName?: string; role?: Role; password?: string }
+): User {
+  const db = getDb();
+  if (!getUserById(id)) throw new AuthError("Not found", 404);
+  if (changes.password !== undefined) {
+    const problem = passwordProblem(changes.password);
+    if (problem) throw new AuthError(problem, 400);
+  }
+
+  db.transaction(() => {
+    if (changes.displayName?.trim()) {
+      db.prepare(`UPDATE users SET display_name = ? WHERE id = ?`).run(changes.displayName.trim(), id);
+    }
+    if (changes.role) {
+      db.prepare(`UPDATE users SET role = ? WHERE id = ?`).run(changes.role, id);
+    }
+    if (changes.password !== undefined) {
+      db.prepare(`UPDATE users SET password_hash = ? WHERE id = ?`).run(hashPassword(changes.password), id);
+      db.prepare(`DELETE FROM sessions WHERE user_id = ?`).run(id);
+    }
+  })();
+  return getUserById(id)!;
+}
+
+/** The user with these credentials, or null. Unknown usernames take as long as wrong passwords. */
+export function authenticate(username: string, password: string): User | null {
+  const db = getDb();
+  const row = db.prepare(`SELECT id, password_hash FROM users WHERE username = ?`).get(username) as
+    | { id: number; password_hash: string }
+    | undefined;
+  const valid = verifyPassword(password, row?.password_hash ?? hashPassword(""));
+  return row && valid ? getUserById(row.id)! : null;
+}
+
+export function createSession(userId: number): { token: string; expiresAt: Date } {
+  const db = getDb();
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+  db.prepare(`DELETE FROM sessions WHERE expires_at <= strftime('%Y-%m-%dT%H:%M:%SZ', 'now')`).run();
+  db.prepare(`INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)`).run(
+    hashToken(token),
+    userId,
+    expiresAt.toISOString().replace(/\.\d{3}Z$/, "Z")
+  );
+  return { token, expiresAt };
+}
+
+export function getSessionUser(token: string | undefined): User | null {
+  if (!token) return null;
+  const db = getDb();
+  const user = db
+    .prepare(
+      `SELECT u.id, u.username, u.display_name, u.role, u.created_at
+       FROM sessions s JOIN users u ON u.id = s.user_id
+       WHERE s.token_hash = ? AND s.expires_at > strftime('%Y-%m-%dT%H:%M:%SZ', 'now')`
+    )
+    .get(hashToken(token)) as User | undefined;
+  return user ?? null;
+}
+
+export function deleteSession(token: string): void {
+  const db = getDb();
+  db.prepare(`DELETE FROM sessions WHERE token_hash = ?`).run(hashToken(token));
+}
@@ -0,0 +1,125 @@
+import { hasRole, ROLE_LABELS, User } from "./auth";
+import { getAllScripts, getDb, Viewer } from "./db";
+import { renderMarkdown } from "./markdown";
+
+// Discussion threads on articles. A thread starts with a top-level comment; replies can answer any
+// comment in it. Threads are resolved as a whole, and a new reply reopens a resolved thread.
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+export interface Comment {
+  id: number;
+  script_id: number;
+  parent_id: number | null;
+  /** Markdown */
+  body: string;
+  author_id: number | null;
+  author: string;
+  /** Only set on the first comment of a resolved thread */
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface CommentNode extends Comment {
+  /** The body rendered to HTML, with names of other articles linked to them */
+  html: string;
+  replies: CommentNode[];
+}
+
+export class CommentError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "CommentError";
+  }
+}
+
+function getComment(id: number): Comment | undefined {
+  const db = getDb();
+  return db.prepare(`SELECT * FROM comments WHERE id = ?`).get(id) as Comment | undefined;
+}
+
+/** Threads on an article, oldest first, each with its replies nested under what they answer. */
+export function getThreads(scriptId: number, viewer: Viewer): CommentNode[] {
+  const db = getDb();
+  const rows = db
+    .prepare(`SELECT * FROM comments WHERE script_id = ? ORDER BY created_at, id`)
+    .all(scriptId) as Comment[];
+  if (rows.length === 0) return [];
+
+  // Only articles the viewer can open become links
+  const mentions = new Map(
+    getAllScripts(viewer)
+      .filter((s) => s.id !== scriptId)
+      .map((s) => [s.name, `/scripts/${s.id}`])
+  );
+  const nodes = new Map<number, CommentNode>(
+    rows.map((c) => [c.id, { ...c, html: renderMarkdown(c.body, { mentions }), replies: [] }])
+  );
+  const threads: CommentNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_id === null ? undefined : nodes.get(node.parent_id);
+    if (parent) parent.replies.push(node);
+    else threads.push(node);
+  }
+  return threads;
+}
+
+export function addComment(scriptId: number, body: string, parentId: number | null, author: User): Comment {
+  const db = getDb();
+  const text = body.trim();
+  if (!text) throw new CommentError("A comment can't be empty", 400);
+  if (text.length > MAX_COMMENT_LENGTH) {
+    throw new CommentError(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`, 400);
+  }
+  if (!db.prepare(`SELECT 1 FROM scripts WHERE id = ?`).get(scriptId)) throw new CommentError("Not found", 404);
+  if (parentId !== null && getComment(parentId)?.script_id !== scriptId) {
+    throw new CommentError("No comment with that id on this article", 404);
+  }
+
+  const id = db.transaction(() => {
+    const result = db
+      .prepare(`INSERT INTO comments (script_id, parent_id, body, author_id, author) VALUES (?, ?, ?, ?, ?)`)
+      .run(scriptId, parentId, text, author.id, author.display_name);
+    if (parentId !== null) {
+      // A follow-up question means the thread isn't settled after all
+      db.prepare(
+        `WITH RECURSIVE thread(id, parent_id) AS (
+           SELECT id, parent_id FROM comments WHERE id = ?
+           UNION ALL
+           SELECT c.id, c.parent_id FROM comments c JOIN thread t ON c.id = t.parent_id
+         )
+         UPDATE comments SET resolved_by = NULL, resolved_at = NULL
+         WHERE id = (SELECT id FROM thread WHERE parent_id IS NULL)`
+      ).run(parentId);
+    }
+    return Number(result.lastInsertRowid);
+  })();
+  return getComment(id)!;
+}
+
+/** Marks a thread resolved or reopens it. Contributors and the thread's author may do either. */
+export function setThreadResolved(scriptId: number, commentId: number, resolved: boolean, user: User): Comment {
+  const db = getDb();
+  const comment = getComment(commentId);
+  if (!comment || comment.script_id !== scriptId) throw new CommentError("No comment with that id on this article", 404);
+  if (comment.parent_id !== null) {
+    throw new CommentError("Only the first comment of a thread can be resolved", 422);
+  }
+  if (comment.author_id !== user.id && !hasRole(user, "contributor")) {
+    throw new CommentError(`Only the author or a ${ROLE_LABELS.contributor} can resolve a thread`, 403);
+  }
+
+  if (resolved) {
+    db.prepare(
+      `UPDATE comments SET resolved_by = ?, resolved_at = strftime('%Y-%m-%dT%H:%M:%SZ', 'now')
+       WHERE id = ? AND resolved_at IS NULL`
+    ).run(user.display_name, commentId);
+  } else {
+    db.prepare(`UPDATE comments SET resolved_by = NULL, resolved_at = NULL WHERE id = ?`).run(commentId);
+  }
+  return getComment(commentId)!;
+}
@@ -0,0 +1,148 @@
+import Database from "better-sqlite3";
+import { getDb, Contributor, KcsState, Viewer, visibleScripts } from "./db";
+import { getUserById, User } from "./auth";
+
+// Contributor profiles for KCS coaching, built from the `contributors` rows. Each row is a
+// person's latest contribution of one type to one article, so counts are per article.
+
+export interface ContributorSummary {
+  name: string;
+  authored: number;
+  reviewed: number;
+  edited: number;
+  other: number;
+  articles: number;
+  avg_confidence: number | null;
+  last_contributed_at: string;
+  /** Account linked to this name, if any */
+  user_id: number | null;
+}
+
+export interface ContributedArticle {
+  id: number;
+  name: string;
+  category_name: string;
+  category_slug: string;
+  kcs_state: KcsState;
+  confidence: number;
+  contribution_type: Contributor["contribution_type"];
+  contributed_at: string;
+}
+
+export interface MonthlyContributions {
+  month: string;
+  authored: number;
+  reviewed: number;
+  edited: number;
+  other: number;
+}
+
+export interface ContributorProfile extends ContributorSummary {
+  account: Pick<User, "username" | "role"> | null;
+  contributions: ContributedArticle[];
+  monthly: MonthlyContributions[];
+}
+
+/** Credits a signed-in user with a contribution, refreshing the date if they already have one of that type. */
+export function recordContribution(
+  db: Database.Database,
+  scriptId: number,
+  user: User,
+  type: Contributor["contribution_type"]
+): void {
+  const existing = db
+    .prepare(
+      `SELECT id FROM contributors
+       WHERE script_id = ? AND contribution_type = ? AND (user_id = ? OR (user_id IS NULL AND name = ?))`
+    )
+    .get(scriptId, type, user.id, user.display_name) as { id: number } | undefined;
+  if (existing) {
+    db.prepare(`UPDATE contributors SET name = ?, user_id = ?, contributed_at = datetime('now') WHERE id = ?`).run(
+      user.display_name,
+      user.id,
+      existing.id
+    );
+  } else {
+    db.prepare(`INSERT INTO contributors (script_id, name, contribution_type, user_id) VALUES (?, ?, ?, ?)`).run(
+      scriptId,
+      user.display_name,
+      type,
+      user.id
+    );
+  }
+}
+
+// Editors credited by the git sync carry commit timestamps (ISO with an offset) and KB writes use
+// SQLite's datetime('now'), so normalise both to UTC ISO before comparing
+const ISO_CONTRIBUTED_AT = `strftime('%Y-%m-%dT%H:%M:%SZ', c.contributed_at)`;
+
+// Counts only cover articles the viewer can see, so restricted articles don't show through them
+function summaryColumns(viewer: Viewer): string {
+  return `
+  c.name,
+  COUNT(*) FILTER (WHERE c.contribution_type = 'author') AS authored,
+  COUNT(*) FILTER (WHERE c.contribution_type = 'reviewer') AS reviewed,
+  COUNT(*) FILTER (WHERE c.contribution_type = 'editor') AS edited,
+  COUNT(*) FILTER (WHERE c.contribution_type = 'contributor') AS other,
+  COUNT(DISTINCT c.script_id) AS articles,
+  ROUND((SELECT AVG(confidence) FROM scripts WHERE id IN (
+    SELECT script_id FROM contributors WHERE name = c.name
+  ) AND ${visibleScripts(viewer, "scripts")}), 1) AS avg_confidence,
+  MAX(${ISO_CONTRIBUTED_AT}) AS last_contributed_at,
+  MAX(c.user_id) AS user_id`;
+}
+
+export function getContributorSummaries(viewer: Viewer): ContributorSummary[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT ${summaryColumns(viewer)}
+       FROM contributors c JOIN scripts s ON s.id = c.script_id
+       WHERE ${visibleScripts(viewer)}
+       GROUP BY c.name
+       ORDER BY COUNT(*) DESC, c.name`
+    )
+    .all() as ContributorSummary[];
+}
+
+/** Only covers articles `viewer` can see; undefined when that leaves nothing. */
+export function getContributorProfile(name: string, viewer: Viewer): ContributorProfile | undefined {
+  const db = getDb();
+  const summary = db
+    .prepare(
+      `SELECT ${summaryColumns(viewer)}
+       FROM contributors c JOIN scripts s ON s.id = c.script_id
+       WHERE c.name = ? AND ${visibleScripts(viewer)} GROUP BY c.name`
+    )
+    .get(name) as ContributorSummary | undefined;
+  if (!summary) return undefined;
+
+  const contributions = db
+    .prepare(
+      `SELECT s.id, s.name, cat.name AS category_name, cat.slug AS category_slug, s.kcs_state, s.confidence,
+         c.contribution_type, ${ISO_CONTRIBUTED_AT} AS contributed_at
+       FROM contributors c
+       JOIN scripts s ON s.id = c.script_id
+       JOIN categories cat ON cat.id = s.category_id
+       WHERE c.name = ? AND ${visibleScripts(viewer)}
+       ORDER BY contributed_at DESC, s.name`
+    )
+    .all(name) as ContributedArticle[];
+
+  const monthly = db
+    .prepare(
+      `SELECT strftime('%Y-%m', contributed_at) AS month,
+         COUNT(*) FILTER (WHERE contribution_type = 'author') AS authored,
+         COUNT(*) FILTER (WHERE contribution_type = 'reviewer') AS reviewed,
+         COUNT(*) FILTER (WHERE contribution_type = 'editor') AS edited,
+         COUNT(*) FILTER (WHERE contribution_type = 'contributor') AS other
+       FROM contributors c JOIN scripts s ON s.id = c.script_id
+       WHERE c.name = ? AND contributed_at IS NOT NULL AND ${visibleScripts(viewer)}
+       GROUP BY month ORDER BY month`
+    )
+    .all(name) as MonthlyContributions[];
+
+  const user = summary.user_id ? getUserById(summary.user_id) : undefined;
+  const account = user ? { username: user.username, role: user.role } : null;
+  return { ...summary, account, contributions, monthly };
+}
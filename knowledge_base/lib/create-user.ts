@@ -0,0 +1,28 @@
+import { AuthError, createUser, getUsers, isRole, ROLES, updateUser } from "./auth";
+
+// Usage: KB_PASSWORD=... npm run user -- <username> <role> [display name]
+// Creates a local account, or resets the role and password of an existing one. This is how the
+// first publisher is set up; after that, publishers manage accounts at /admin/users.
+
+const [username, role, ...nameParts] = process.argv.slice(2);
+const password = process.env.KB_PASSWORD ?? "";
+
+if (!username || !isRole(role) || !password) {
+  console.error(`Usage: KB_PASSWORD=<password> npm run user -- <username> <${ROLES.join("|")}> [display name]`);
+  process.exit(2);
+}
+
+try {
+  const existing = getUsers().find((u) => u.username.toLowerCase() === username.toLowerCase());
+  const displayName = nameParts.join(" ");
+  const user = existing
+    ? updateUser(existing.id, { role, password, displayName: displayName || undefined })
+    : createUser(username, displayName, password, role);
+  console.log(`${existing ? "Updated" : "Created"} ${user.username} (${user.display_name}) as ${user.role}`);
+} catch (err) {
+  if (err instanceof AuthError) {
+    console.error(err.message);
+    process.exit(1);
+  }
+  throw err;
+}
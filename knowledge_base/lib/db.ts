@@ -1,5 +1,6 @@
 import Database from "better-sqlite3";
 import path from "path";
+import { migrate } from "./migrations";
 
 const DB_PATH = path.join(process.cwd(), "knowledge.db");
 
@@ -7,110 +8,15 @@ let _db: Database.Database | null = null;
 
 export function getDb(): Database.Database {
   if (!_db) {
-    _db = new Database(DB_PATH);
+    // KB_DB_PATH points the app at another database, e.g. ":memory:" for the tests
+    _db = new Database(process.env.KB_DB_PATH || DB_PATH);
     _db.pragma("journal_mode = WAL");
     _db.pragma("foreign_keys = ON");
-    ensureSchema(_db);
+    migrate(_db);
   }
   return _db;
 }
 
-function ensureSchema(db: Database.Database) {
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS categories (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      slug TEXT UNIQUE NOT NULL,
-      name TEXT NOT NULL,
-      description TEXT,
-      sort_order INTEGER DEFAULT 0
-    );
-
-    CREATE TABLE IF NOT EXISTS scripts (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      category_id INTEGER NOT NULL REFERENCES categories(id),
-      name TEXT NOT NULL,
-      file_path TEXT NOT NULL,
-      subcategory TEXT,
-      synopsis TEXT,
-      description TEXT,
-      supports_whatif INTEGER DEFAULT 0,
-      supports_csv_export INTEGER DEFAULT 0,
-      created_at TEXT DEFAULT (datetime('now')),
-      -- KCS (Knowledge-Centered Service) fields
-      kcs_state TEXT DEFAULT 'draft' CHECK(kcs_state IN ('draft','approved','published','retired')),
-      environment TEXT,
-      resolution TEXT,
-      cause TEXT,
-      confidence INTEGER DEFAULT 0 CHECK(confidence >= 0 AND confidence <= 100),
-      view_count INTEGER DEFAULT 0,
-      last_reviewed_at TEXT,
-      author TEXT,
-      UNIQUE(name)
-    );
-
-    CREATE TABLE IF NOT EXISTS parameters (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
-      name TEXT NOT NULL,
-      description TEXT,
-      is_required INTEGER DEFAULT 0,
-      default_value TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS docker_components (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      component_type TEXT NOT NULL,
-      port TEXT,
-      description TEXT,
-      location TEXT,
-      details TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS tags (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT UNIQUE NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS script_tags (
-      script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
-      tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
-      PRIMARY KEY (script_id, tag_id)
-    );
-
-    -- KCS article contributors (reuse & improve tracking)
-    CREATE TABLE IF NOT EXISTS contributors (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
-      name TEXT NOT NULL,
-      contribution_type TEXT NOT NULL CHECK(contribution_type IN ('author','reviewer','editor','contributor')),
-      contributed_at TEXT DEFAULT (datetime('now'))
-    );
-
-    CREATE VIRTUAL TABLE IF NOT EXISTS scripts_fts USING fts5(
-      name, synopsis, description, subcategory, environment, resolution, cause,
-      content='scripts', content_rowid='id'
-    );
-
-    CREATE TRIGGER IF NOT EXISTS scripts_ai AFTER INSERT ON scripts BEGIN
-      INSERT INTO scripts_fts(rowid, name, synopsis, description, subcategory, environment, resolution, cause)
-      VALUES (new.id, new.name, new.synopsis, new.description, new.subcategory, new.environment, new.resolution, new.cause);
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS scripts_ad AFTER DELETE ON scripts BEGIN
-      INSERT INTO scripts_fts(scripts_fts, rowid, name, synopsis, description, subcategory, environment, resolution, cause)
-      VALUES ('delete', old.id, old.name, old.synopsis, old.description, old.subcategory, old.environment, old.resolution, old.cause);
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS scripts_au AFTER UPDATE ON scripts BEGIN
-      INSERT INTO scripts_fts(scripts_fts, rowid, name, synopsis, description, subcategory, environment, resolution, cause)
-      VALUES ('delete', old.id, old.name, old.synopsis, old.description, old.subcategory, old.environment, old.resolution, old.cause);
-      INSERT INTO scripts_fts(rowid, name, synopsis, description, subcategory, environment, resolution, cause)
-      VALUES (new.id, new.name, new.synopsis, new.description, new.subcategory, new.environment, new.resolution, new.cause);
-    END;
-  `);
-}
-
 // --- Query helpers ---
 
 export interface Category {
@@ -120,6 +26,8 @@ export interface Category {
   description: string | null;
   sort_order: number;
   script_count?: number;
+  /** Visible articles with at least one unresolved discussion thread */
+  open_discussions?: number;
 }
 
 export type KcsState = "draft" | "approved" | "published" | "retired";
@@ -145,7 +53,18 @@ export interface Script {
   confidence: number;
   view_count: number;
   last_reviewed_at: string | null;
+  // Date of the last commit touching the script file
+  last_modified_at: string | null;
   author: string | null;
+  // Account behind the author name, when there is one (see lib/auth.ts)
+  author_id: number | null;
+  // Optimistic concurrency token for KB edits
+  version: number;
+  // JSON array of fields edited in the KB (see lib/edit.ts)
+  edited_fields: string | null;
+  // Replacement of a retired article and why it was replaced (see lib/kcs.ts)
+  superseded_by: number | null;
+  superseded_reason: string | null;
 }
 
 export interface Parameter {
@@ -155,16 +74,139 @@ export interface Parameter {
   description: string | null;
   is_required: number;
   default_value: string | null;
+  type: string | null;
+  validate_set: string[] | null;
+  validate_range_min: string | null;
+  validate_range_max: string | null;
+  validate_pattern: string | null;
+  // Empty means the parameter belongs to every parameter set
+  parameter_sets: string[];
+  aliases: string[];
+  position: number | null;
+  value_from_pipeline: number;
+  value_from_pipeline_by_property_name: number;
+}
+
+// List-valued parameter columns are stored as JSON arrays
+type ParameterRow = Omit<Parameter, "validate_set" | "parameter_sets" | "aliases"> & {
+  validate_set: string | null;
+  parameter_sets: string | null;
+  aliases: string | null;
+};
+
+function toParameter(row: ParameterRow): Parameter {
+  return {
+    ...row,
+    validate_set: row.validate_set ? (JSON.parse(row.validate_set) as string[]) : null,
+    parameter_sets: row.parameter_sets ? (JSON.parse(row.parameter_sets) as string[]) : [],
+    aliases: row.aliases ? (JSON.parse(row.aliases) as string[]) : [],
+  };
+}
+
+export interface Example {
+  id: number;
+  script_id: number;
+  sort_order: number;
+  command: string;
+  explanation: string | null;
+}
+
+export interface ScrapeJob {
+  job: string;
+  interval: string;
+  targets: string[];
 }
 
 export interface DockerComponent {
   id: number;
   name: string;
+  service_name: string | null;
   component_type: string;
   port: string | null;
   description: string | null;
   location: string | null;
   details: string | null;
+  image: string | null;
+  ports: string[];
+  volumes: string[];
+  depends_on: string[];
+  scrape_jobs: ScrapeJob[];
+}
+
+type DockerComponentRow = Omit<DockerComponent, "ports" | "volumes" | "depends_on" | "scrape_jobs"> & {
+  ports: string | null;
+  volumes: string | null;
+  depends_on: string | null;
+  scrape_jobs: string | null;
+};
+
+function toDockerComponent(row: DockerComponentRow): DockerComponent {
+  return {
+    ...row,
+    ports: row.ports ? (JSON.parse(row.ports) as string[]) : [],
+    volumes: row.volumes ? (JSON.parse(row.volumes) as string[]) : [],
+    depends_on: row.depends_on ? (JSON.parse(row.depends_on) as string[]) : [],
+    scrape_jobs: row.scrape_jobs ? (JSON.parse(row.scrape_jobs) as ScrapeJob[]) : [],
+  };
+}
+
+export interface AlertRule {
+  id: number;
+  name: string;
+  group_name: string | null;
+  expr: string;
+  for_duration: string | null;
+  severity: string | null;
+  category: string | null;
+  summary: string | null;
+  description: string | null;
+  file_path: string;
+}
+
+export interface DocumentSummary {
+  id: number;
+  file_path: string;
+  title: string;
+  section: string | null;
+  summary: string | null;
+  updated_at: string | null;
+}
+
+export interface Document extends DocumentSummary {
+  content: string;
+}
+
+export type SearchResult =
+  | ({ kind: "script" } & Script)
+  | ({ kind: "document"; snippet: string | null } & DocumentSummary);
+
+export interface ScriptModule {
+  module_name: string;
+  source: "requires" | "import";
+}
+
+export interface RelatedScript {
+  id: number;
+  name: string;
+  file_path: string;
+  synopsis: string | null;
+  kcs_state: KcsState;
+  /** calls / references for direct links, shared-modules for scripts with overlapping requirements */
+  relation: string;
+}
+
+export interface DependencyNode {
+  id: number;
+  name: string;
+  file_path: string;
+  depth: number;
+}
+
+export interface DependencyClosure {
+  script: { id: number; name: string };
+  modules: (ScriptModule & { required_by: string })[];
+  requires: DependencyNode[];
+  usedBy: DependencyNode[];
 }
 
 export interface Tag {
@@ -178,37 +220,112 @@ export interface Contributor {
   name: string;
   contribution_type: "author" | "reviewer" | "editor" | "contributor";
   contributed_at: string;
+  user_id: number | null;
 }
 
-export function getAllCategories(): Category[] {
+export interface ScriptCommit {
+  sha: string;
+  author_name: string;
+  author_email: string | null;
+  committed_at: string;
+  subject: string;
+}
+
+/** Who is looking at the knowledge base; null for anonymous readers. */
+export type Viewer = { id: number; role: string } | null;
+
+// True when the row has no group rule in `table`, or the viewer is in one of the groups
+function groupRule(table: string, column: string, value: string, userId: number): string {
+  return `(NOT EXISTS (SELECT 1 FROM ${table} WHERE ${column} = ${value})
+    OR EXISTS (SELECT 1 FROM ${table} r JOIN user_groups ug ON ug.group_id = r.group_id
+               WHERE r.${column} = ${value} AND ug.user_id = ${userId}))`;
+}
+
+/**
+ * SQL condition for the categories `viewer` may see (see lib/visibility.ts). Publishers see
+ * everything so they can manage the rules.
+ */
+export function visibleCategories(viewer: Viewer, alias = "c"): string {
+  if (viewer?.role === "publisher") return "1";
+  return groupRule("category_visibility", "category_id", `${alias}.id`, Number(viewer?.id ?? 0));
+}
+
+/** SQL condition for the articles `viewer` may see: both the category and the article rules must allow it. */
+export function visibleScripts(viewer: Viewer, alias = "s"): string {
+  if (viewer?.role === "publisher") return "1";
+  const userId = Number(viewer?.id ?? 0);
+  return `(${groupRule("category_visibility", "category_id", `${alias}.category_id`, userId)}
+    AND ${groupRule("script_visibility", "script_id", `${alias}.id`, userId)})`;
+}
+
+/**
+ * SQL condition for the repository documents `viewer` may see. Documents have no rules of their
+ * own: one inside a category's folder (e.g. 03-Security-Compliance/RBAC/README.md) follows that
+ * category's rule.
+ */
+export function visibleDocuments(viewer: Viewer, alias = "d"): string {
+  if (viewer?.role === "publisher") return "1";
+  return `NOT EXISTS (SELECT 1 FROM categories dc
+    WHERE lower(substr(${alias}.file_path, 1, length(dc.slug) + 1)) = dc.slug || '/'
+    AND NOT ${visibleCategories(viewer, "dc")})`;
+}
+
+export function isScriptVisible(scriptId: number, viewer: Viewer): boolean {
+  const db = getDb();
+  return !!db.prepare(`SELECT 1 FROM scripts s WHERE s.id = ? AND ${visibleScripts(viewer)}`).get(scriptId);
+}
+
+// An unresolved discussion thread (comments t) on article s, see lib/comments.ts
+const OPEN_THREAD = `t.script_id = s.id AND t.parent_id IS NULL AND t.resolved_at IS NULL`;
+
+export function getAllCategories(viewer: Viewer): Category[] {
   const db = getDb();
   return db
     .prepare(
-      `SELECT c.*, (SELECT COUNT(*) FROM scripts s WHERE s.category_id = c.id) AS script_count
-       FROM categories c ORDER BY c.sort_order`
+      `SELECT c.*, (SELECT COUNT(*) FROM scripts s WHERE s.category_id = c.id AND ${visibleScripts(viewer)}) AS script_count,
+         (SELECT COUNT(*) FROM scripts s WHERE s.category_id = c.id AND ${visibleScripts(viewer)}
+          AND EXISTS (SELECT 1 FROM comments t WHERE ${OPEN_THREAD})) AS open_discussions
+       FROM categories c WHERE ${visibleCategories(viewer)} ORDER BY c.sort_order`
     )
     .all() as Category[];
 }
 
-export function getCategoryBySlug(slug: string): Category | undefined {
+export function getCategoryBySlug(slug: string, viewer: Viewer): Category | undefined {
   const db = getDb();
   return db
     .prepare(
-      `SELECT c.*, (SELECT COUNT(*) FROM scripts s WHERE s.category_id = c.id) AS script_count
-       FROM categories c WHERE c.slug = ?`
+      `SELECT c.*, (SELECT COUNT(*) FROM scripts s WHERE s.category_id = c.id AND ${visibleScripts(viewer)}) AS script_count,
+         (SELECT COUNT(*) FROM scripts s WHERE s.category_id = c.id AND ${visibleScripts(viewer)}
+          AND EXISTS (SELECT 1 FROM comments t WHERE ${OPEN_THREAD})) AS open_discussions
+       FROM categories c WHERE c.slug = ? AND ${visibleCategories(viewer)}`
     )
     .get(slug) as Category | undefined;
 }
 
-export function getScriptsByCategory(categoryId: number): Script[] {
+// The window behind "reused N times" badges and reuse ordering
+export const REUSE_WINDOW_DAYS = 30;
+
+/**
+ * Scripts in a category with their reuse count for the last REUSE_WINDOW_DAYS and their number of
+ * unresolved discussion threads. "reuse" puts the most reused first within each subcategory.
+ */
+export function getScriptsByCategory(
+  categoryId: number,
+  viewer: Viewer,
+  order: "name" | "reuse" = "name"
+): (Script & { recent_reuse: number; open_threads: number })[] {
   const db = getDb();
+  const orderBy = order === "reuse" ? "s.subcategory, recent_reuse DESC, s.name" : "s.subcategory, s.name";
   return db
     .prepare(
-      `SELECT s.*, c.name AS category_name, c.slug AS category_slug
+      `SELECT s.*, c.name AS category_name, c.slug AS category_slug,
+         (SELECT COUNT(*) FROM reuse_events r
+          WHERE r.script_id = s.id AND r.created_at >= datetime('now', '-${REUSE_WINDOW_DAYS} days')) AS recent_reuse,
+         (SELECT COUNT(*) FROM comments t WHERE ${OPEN_THREAD}) AS open_threads
        FROM scripts s JOIN categories c ON s.category_id = c.id
-       WHERE s.category_id = ? ORDER BY s.subcategory, s.name`
+       WHERE s.category_id = ? AND ${visibleScripts(viewer)} ORDER BY ${orderBy}`
     )
-    .all(categoryId) as Script[];
+    .all(categoryId) as (Script & { recent_reuse: number; open_threads: number })[];
 }
 
 export function getScriptById(id: number): Script | undefined {
@@ -236,8 +353,19 @@ export function getScriptByName(name: string): Script | undefined {
 export function getParametersForScript(scriptId: number): Parameter[] {
   const db = getDb();
   return db
-    .prepare(`SELECT * FROM parameters WHERE script_id = ? ORDER BY is_required DESC, name`)
-    .all(scriptId) as Parameter[];
+    .prepare(
+      `SELECT * FROM parameters WHERE script_id = ?
+       ORDER BY is_required DESC, position IS NULL, position, name`
+    )
+    .all(scriptId)
+    .map((row) => toParameter(row as ParameterRow));
+}
+
+export function getExamplesForScript(scriptId: number): Example[] {
+  const db = getDb();
+  return db
+    .prepare(`SELECT * FROM examples WHERE script_id = ? ORDER BY sort_order`)
+    .all(scriptId) as Example[];
 }
 
 export function getTagsForScript(scriptId: number): Tag[] {
@@ -254,51 +382,146 @@ export function getTagsForScript(scriptId: number): Tag[] {
 export function getAllDockerComponents(): DockerComponent[] {
   const db = getDb();
   return db
-    .prepare(`SELECT * FROM docker_components ORDER BY name`)
-    .all() as DockerComponent[];
+    .prepare(`SELECT * FROM docker_components ORDER BY service_name IS NULL, name`)
+    .all()
+    .map((row) => toDockerComponent(row as DockerComponentRow));
 }
 
-export function searchScripts(query: string): Script[] {
+/** Every rule, with how many of the articles that help diagnose it `viewer` can see. */
+export function getAllAlertRules(viewer: Viewer): (AlertRule & { script_count: number })[] {
   const db = getDb();
-  if (!query.trim()) return [];
-  const ftsQuery = query
+  return db
+    .prepare(
+      `SELECT a.*, COUNT(s.id) AS script_count
+       FROM alert_rules a
+       LEFT JOIN script_alert_rules sa ON sa.alert_rule_id = a.id
+       LEFT JOIN scripts s ON s.id = sa.script_id AND ${visibleScripts(viewer)}
+       GROUP BY a.id ORDER BY a.group_name, a.name`
+    )
+    .all() as (AlertRule & { script_count: number })[];
+}
+
+export function getAlertRuleByName(name: string): AlertRule | undefined {
+  const db = getDb();
+  return db.prepare(`SELECT * FROM alert_rules WHERE name = ?`).get(name) as AlertRule | undefined;
+}
+
+export function getAlertRulesForScript(scriptId: number): AlertRule[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT a.* FROM alert_rules a
+       JOIN script_alert_rules sa ON sa.alert_rule_id = a.id
+       WHERE sa.script_id = ? ORDER BY a.name`
+    )
+    .all(scriptId) as AlertRule[];
+}
+
+export function getScriptsForAlertRule(alertRuleId: number, viewer: Viewer): Script[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT s.*, c.name AS category_name, c.slug AS category_slug
+       FROM scripts s
+       JOIN categories c ON s.category_id = c.id
+       JOIN script_alert_rules sa ON sa.script_id = s.id
+       WHERE sa.alert_rule_id = ? AND ${visibleScripts(viewer)} ORDER BY s.name`
+    )
+    .all(alertRuleId) as Script[];
+}
+
+/** Turns free text into an FTS5 prefix query; quotes are escaped so user input can't inject syntax. */
+function toFtsQuery(query: string): string {
+  return query
     .trim()
     .split(/\s+/)
-    .map((w) => `"${w}"*`)
+    .map((w) => `"${w.replace(/"/g, '""')}"*`)
     .join(" ");
+}
+
+function rankScripts(ftsQuery: string, viewer: Viewer, includeRetired: boolean): (Script & { rank: number })[] {
+  const db = getDb();
+  // Articles match on their own text or on any of their usage examples (command fragments)
   return db
     .prepare(
-      `SELECT s.*, c.name AS category_name, c.slug AS category_slug
-       FROM scripts_fts fts
-       JOIN scripts s ON fts.rowid = s.id
+      `SELECT s.*, c.name AS category_name, c.slug AS category_slug, MIN(m.rank) AS rank
+       FROM (
+         SELECT rowid AS script_id, rank FROM scripts_fts WHERE scripts_fts MATCH ?
+         UNION ALL
+         SELECT e.script_id, examples_fts.rank FROM examples_fts
+         JOIN examples e ON examples_fts.rowid = e.id
+         WHERE examples_fts MATCH ?
+       ) m
+       JOIN scripts s ON m.script_id = s.id
        JOIN categories c ON s.category_id = c.id
-       WHERE scripts_fts MATCH ?
+       WHERE ${visibleScripts(viewer)} ${includeRetired ? "" : "AND s.kcs_state != 'retired'"}
+       GROUP BY s.id
+       ORDER BY rank`
+    )
+    .all(ftsQuery, ftsQuery) as (Script & { rank: number })[];
+}
+
+/** Retired articles are left out unless `includeRetired` is set. */
+export function searchScripts(query: string, viewer: Viewer, includeRetired = false): Script[] {
+  if (!query.trim()) return [];
+  return rankScripts(toFtsQuery(query), viewer, includeRetired).map(({ rank: _rank, ...script }) => script);
+}
+
+function rankDocuments(ftsQuery: string, viewer: Viewer): (DocumentSummary & { snippet: string | null; rank: number })[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT d.id, d.file_path, d.title, d.section, d.summary, d.updated_at,
+              snippet(documents_fts, 1, '', '', '…', 16) AS snippet, documents_fts.rank AS rank
+       FROM documents_fts JOIN documents d ON documents_fts.rowid = d.id
+       WHERE documents_fts MATCH ? AND ${visibleDocuments(viewer)}
        ORDER BY rank`
     )
-    .all(ftsQuery) as Script[];
+    .all(ftsQuery) as (DocumentSummary & { snippet: string | null; rank: number })[];
+}
+
+export function searchDocuments(query: string, viewer: Viewer): (DocumentSummary & { snippet: string | null })[] {
+  if (!query.trim()) return [];
+  return rankDocuments(toFtsQuery(query), viewer).map(({ rank: _rank, ...doc }) => doc);
+}
+
+/** Scripts and documents interleaved by FTS5 rank (bm25, lower is better); retired scripts only on request. */
+export function searchKnowledge(query: string, viewer: Viewer, includeRetired = false): SearchResult[] {
+  if (!query.trim()) return [];
+  const ftsQuery = toFtsQuery(query);
+  const ranked = [
+    ...rankScripts(ftsQuery, viewer, includeRetired).map((s) => ({ ...s, kind: "script" as const })),
+    ...rankDocuments(ftsQuery, viewer).map((d) => ({ ...d, kind: "document" as const })),
+  ].sort((a, b) => a.rank - b.rank);
+  return ranked.map(({ rank: _rank, ...result }) => result);
 }
 
-export function getAllScripts(): Script[] {
+export function getAllScripts(viewer: Viewer): Script[] {
   const db = getDb();
   return db
     .prepare(
       `SELECT s.*, c.name AS category_name, c.slug AS category_slug
        FROM scripts s JOIN categories c ON s.category_id = c.id
+       WHERE ${visibleScripts(viewer)}
        ORDER BY c.sort_order, s.subcategory, s.name`
     )
     .all() as Script[];
 }
 
-export function getStats() {
+export function getStats(viewer: Viewer) {
   const db = getDb();
   const scriptCount = (
-    db.prepare(`SELECT COUNT(*) as count FROM scripts`).get() as { count: number }
+    db.prepare(`SELECT COUNT(*) as count FROM scripts s WHERE ${visibleScripts(viewer)}`).get() as { count: number }
   ).count;
   const categoryCount = (
-    db.prepare(`SELECT COUNT(*) as count FROM categories`).get() as { count: number }
+    db.prepare(`SELECT COUNT(*) as count FROM categories c WHERE ${visibleCategories(viewer)}`).get() as {
+      count: number;
+    }
   ).count;
   const parameterCount = (
-    db.prepare(`SELECT COUNT(*) as count FROM parameters`).get() as { count: number }
+    db
+      .prepare(`SELECT COUNT(*) as count FROM parameters p JOIN scripts s ON s.id = p.script_id WHERE ${visibleScripts(viewer)}`)
+      .get() as { count: number }
   ).count;
   const dockerCount = (
     db.prepare(`SELECT COUNT(*) as count FROM docker_components`).get() as {
@@ -306,13 +529,145 @@ export function getStats() {
     }
   ).count;
   const publishedCount = (
-    db.prepare(`SELECT COUNT(*) as count FROM scripts WHERE kcs_state = 'published'`).get() as {
-      count: number;
-    }
+    db
+      .prepare(`SELECT COUNT(*) as count FROM scripts s WHERE s.kcs_state = 'published' AND ${visibleScripts(viewer)}`)
+      .get() as { count: number }
   ).count;
   return { scriptCount, categoryCount, parameterCount, dockerCount, publishedCount };
 }
 
+export function getAllDocuments(viewer: Viewer): DocumentSummary[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT id, file_path, title, section, summary, updated_at FROM documents d
+       WHERE ${visibleDocuments(viewer)} ORDER BY file_path`
+    )
+    .all() as DocumentSummary[];
+}
+
+export function getDocumentById(id: number, viewer: Viewer): Document | undefined {
+  const db = getDb();
+  return db
+    .prepare(`SELECT * FROM documents d WHERE d.id = ? AND ${visibleDocuments(viewer)}`)
+    .get(id) as Document | undefined;
+}
+
+export function getScriptsForDocument(documentId: number, viewer: Viewer): Script[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT s.*, c.name AS category_name, c.slug AS category_slug
+       FROM scripts s
+       JOIN categories c ON s.category_id = c.id
+       JOIN document_scripts ds ON ds.script_id = s.id
+       WHERE ds.document_id = ? AND ${visibleScripts(viewer)} ORDER BY s.name`
+    )
+    .all(documentId) as Script[];
+}
+
+export function getDocumentsForScript(scriptId: number, viewer: Viewer): DocumentSummary[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT d.id, d.file_path, d.title, d.section, d.summary, d.updated_at
+       FROM documents d JOIN document_scripts ds ON ds.document_id = d.id
+       WHERE ds.script_id = ? AND ${visibleDocuments(viewer)} ORDER BY d.title`
+    )
+    .all(scriptId) as DocumentSummary[];
+}
+
+export function getModulesForScript(scriptId: number): ScriptModule[] {
+  const db = getDb();
+  return db
+    .prepare(`SELECT module_name, source FROM script_modules WHERE script_id = ? ORDER BY module_name`)
+    .all(scriptId) as ScriptModule[];
+}
+
+/** Scripts this one runs (direction "requires") or that run this one ("usedBy"). */
+export function getScriptCalls(scriptId: number, direction: "requires" | "usedBy", viewer: Viewer): RelatedScript[] {
+  const db = getDb();
+  const [from, to] = direction === "requires" ? ["script_id", "depends_on_id"] : ["depends_on_id", "script_id"];
+  return db
+    .prepare(
+      `SELECT s.id, s.name, s.file_path, s.synopsis, s.kcs_state, d.kind AS relation
+       FROM script_dependencies d JOIN scripts s ON s.id = d.${to}
+       WHERE d.${from} = ? AND d.kind = 'calls' AND ${visibleScripts(viewer)} ORDER BY s.name`
+    )
+    .all(scriptId) as RelatedScript[];
+}
+
+/** Scripts that mention this one (or are mentioned by it), then up to `limit` sharing the most modules. */
+export function getRelatedScripts(scriptId: number, viewer: Viewer, limit = 6): RelatedScript[] {
+  const db = getDb();
+  const referenced = db
+    .prepare(
+      `SELECT s.id, s.name, s.file_path, s.synopsis, s.kcs_state, 'references' AS relation
+       FROM script_dependencies d
+       JOIN scripts s ON s.id = CASE WHEN d.script_id = ? THEN d.depends_on_id ELSE d.script_id END
+       WHERE (d.script_id = ? OR d.depends_on_id = ?) AND d.kind = 'references' AND ${visibleScripts(viewer)}
+       GROUP BY s.id ORDER BY s.name`
+    )
+    .all(scriptId, scriptId, scriptId) as RelatedScript[];
+  const sharing = db
+    .prepare(
+      `SELECT s.id, s.name, s.file_path, s.synopsis, s.kcs_state,
+              COUNT(*) || ' shared module' || CASE COUNT(*) WHEN 1 THEN '' ELSE 's' END AS relation
+       FROM script_modules mine
+       JOIN script_modules theirs ON theirs.module_name = mine.module_name AND theirs.script_id != mine.script_id
+       JOIN scripts s ON s.id = theirs.script_id
+       WHERE mine.script_id = ? AND s.kcs_state != 'retired' AND ${visibleScripts(viewer)}
+       GROUP BY s.id ORDER BY COUNT(*) DESC, s.name LIMIT ?`
+    )
+    .all(scriptId, limit) as RelatedScript[];
+  const seen = new Set(referenced.map((r) => r.id));
+  return [...referenced, ...sharing.filter((r) => !seen.has(r.id))];
+}
+
+/**
+ * Transitive closure over 'calls' edges in both directions, with every module the call tree pulls in.
+ * The walk passes through articles `viewer` can't see but leaves them out of the result.
+ */
+export function getDependencyClosure(scriptId: number, viewer: Viewer): DependencyClosure | undefined {
+  const db = getDb();
+  const script = db.prepare(`SELECT s.id, s.name FROM scripts s WHERE s.id = ? AND ${visibleScripts(viewer)}`).get(scriptId) as
+    | { id: number; name: string }
+    | undefined;
+  if (!script) return undefined;
+
+  // UNION (not UNION ALL) stops the recursion on cycles
+  const walk = (from: string, to: string) =>
+    db
+      .prepare(
+        `WITH RECURSIVE closure(id, depth) AS (
+           SELECT ${to}, 1 FROM script_dependencies WHERE ${from} = ? AND kind = 'calls'
+           UNION
+           SELECT d.${to}, c.depth + 1 FROM script_dependencies d
+           JOIN closure c ON d.${from} = c.id
+           WHERE d.kind = 'calls' AND c.depth < 50
+         )
+         SELECT s.id, s.name, s.file_path, MIN(c.depth) AS depth
+         FROM closure c JOIN scripts s ON s.id = c.id
+         WHERE s.id != ? AND ${visibleScripts(viewer)}
+         GROUP BY s.id ORDER BY depth, s.name`
+      )
+      .all(scriptId, scriptId) as DependencyNode[];
+
+  const requires = walk("script_id", "depends_on_id");
+  const usedBy = walk("depends_on_id", "script_id");
+  const tree = [script.id, ...requires.map((r) => r.id)];
+  const modules = db
+    .prepare(
+      `SELECT m.module_name, m.source, s.name AS required_by
+       FROM script_modules m JOIN scripts s ON s.id = m.script_id
+       WHERE m.script_id IN (${tree.map(() => "?").join(", ")})
+       ORDER BY m.module_name, s.name`
+    )
+    .all(...tree) as (ScriptModule & { required_by: string })[];
+
+  return { script, modules, requires, usedBy };
+}
+
 // --- KCS helpers ---
 
 export function getContributorsForScript(scriptId: number): Contributor[] {
@@ -322,6 +677,16 @@ export function getContributorsForScript(scriptId: number): Contributor[] {
     .all(scriptId) as Contributor[];
 }
 
+export function getCommitsForScript(scriptId: number): ScriptCommit[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT sha, author_name, author_email, committed_at, subject
+       FROM script_commits WHERE script_id = ? ORDER BY committed_at DESC`
+    )
+    .all(scriptId) as ScriptCommit[];
+}
+
 export function getScriptsByKcsState(state: KcsState): Script[] {
   const db = getDb();
   return db
@@ -333,6 +698,23 @@ export function getScriptsByKcsState(state: KcsState): Script[] {
     .all(state) as Script[];
 }
 
+/** The article that replaced this one, if it has one and `viewer` may see it. */
+export function getReplacement(script: Script, viewer: Viewer): Script | null {
+  if (script.superseded_by === null || !isScriptVisible(script.superseded_by, viewer)) return null;
+  return getScriptById(script.superseded_by) ?? null;
+}
+
+/** Retired articles that name this one as their replacement. */
+export function getSupersededScripts(scriptId: number, viewer: Viewer): RelatedScript[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT s.id, s.name, s.file_path, s.synopsis, s.kcs_state, COALESCE(s.superseded_reason, '') AS relation
+       FROM scripts s WHERE s.superseded_by = ? AND ${visibleScripts(viewer)} ORDER BY s.name`
+    )
+    .all(scriptId) as RelatedScript[];
+}
+
 export function incrementViewCount(scriptId: number): void {
   const db = getDb();
   db.prepare(`UPDATE scripts SET view_count = view_count + 1 WHERE id = ?`).run(scriptId);
@@ -340,13 +722,34 @@ export function incrementViewCount(scriptId: number): void {
 
 // --- RDF/JSON-LD helpers ---
 
-export function getScriptJsonLd(script: Script, parameters: Parameter[], tags: Tag[]): object {
+/**
+ * JSON for an inline <script type="application/ld+json">. Article text is user-editable, so
+ * `<`, `>` and `&` are escaped to keep "</script>" in a field from ending the tag.
+ */
+export function serializeJsonLd(value: object): string {
+  return JSON.stringify(value)
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/&/g, "\\u0026");
+}
+
+export function getScriptJsonLd(
+  script: Script,
+  parameters: Parameter[],
+  tags: Tag[],
+  examples: Example[],
+  alertRules: AlertRule[],
+  replacedBy: Script | null = null,
+  replaces: RelatedScript[] = []
+): object {
   return {
     "@context": {
       "@vocab": "https://schema.org/",
       dc: "http://purl.org/dc/terms/",
       skos: "http://www.w3.org/2004/02/skos/core#",
       kcs: "https://serviceinnovation.org/kcs/",
+      ps: "urn:ms-tools:powershell:",
+      prom: "urn:ms-tools:prometheus:",
     },
     "@type": "SoftwareSourceCode",
     "@id": `urn:ms-tools:script:${script.id}`,
@@ -358,7 +761,7 @@ export function getScriptJsonLd(script: Script, parameters: Parameter[], tags: T
     "dc:subject": tags.map((t) => t.name),
     "dc:type": "AutomationScript",
     "dc:created": script.created_at ?? undefined,
-    "dc:modified": script.last_reviewed_at ?? undefined,
+    "dc:modified": script.last_modified_at ?? script.last_reviewed_at ?? undefined,
     "skos:prefLabel": script.name,
     "skos:definition": script.synopsis,
     "skos:inScheme": {
@@ -372,6 +775,13 @@ export function getScriptJsonLd(script: Script, parameters: Parameter[], tags: T
     "kcs:resolution": script.resolution,
     "kcs:cause": script.cause,
     "kcs:viewCount": script.view_count,
+    "dc:isReplacedBy": replacedBy
+      ? { "@id": `urn:ms-tools:script:${replacedBy.id}`, name: replacedBy.name }
+      : undefined,
+    "dc:replaces": replaces.length
+      ? replaces.map((r) => ({ "@id": `urn:ms-tools:script:${r.id}`, name: r.name }))
+      : undefined,
+    "kcs:supersededReason": replacedBy ? (script.superseded_reason ?? undefined) : undefined,
     operatingSystem: script.environment || "Windows Server / Microsoft 365",
     applicationCategory: script.subcategory || script.category_name,
     hasPart: parameters.map((p) => ({
@@ -380,6 +790,55 @@ export function getScriptJsonLd(script: Script, parameters: Parameter[], tags: T
       description: p.description,
       defaultValue: p.default_value,
       valueRequired: p.is_required === 1,
+      valueName: p.type ?? undefined,
+      valuePattern: p.validate_pattern ?? undefined,
+      minValue: p.validate_range_min ?? undefined,
+      maxValue: p.validate_range_max ?? undefined,
+      alternateName: p.aliases.length ? p.aliases : undefined,
+      "ps:validateSet": p.validate_set ?? undefined,
+      "ps:parameterSet": p.parameter_sets.length ? p.parameter_sets : undefined,
+    })),
+    workExample: examples.map((e) => ({
+      "@type": "SoftwareSourceCode",
+      programmingLanguage: "PowerShell",
+      text: e.command,
+      description: e.explanation ?? undefined,
+    })),
+    // Runbook links: the Prometheus alerts this script helps diagnose
+    "prom:diagnosesAlert": alertRules.map((a) => ({
+      "@type": "DefinedTerm",
+      "@id": `urn:ms-tools:alert:${a.name}`,
+      name: a.name,
+      description: a.summary ?? undefined,
+      termCode: a.expr,
+      "prom:severity": a.severity ?? undefined,
+      "prom:category": a.category ?? undefined,
+    })),
+  };
+}
+
+export function getAlertRuleJsonLd(rule: AlertRule, scripts: Script[]): object {
+  return {
+    "@context": {
+      "@vocab": "https://schema.org/",
+      dc: "http://purl.org/dc/terms/",
+      prom: "urn:ms-tools:prometheus:",
+    },
+    "@type": "DefinedTerm",
+    "@id": `urn:ms-tools:alert:${rule.name}`,
+    name: rule.name,
+    description: rule.description ?? rule.summary ?? undefined,
+    termCode: rule.expr,
+    inDefinedTermSet: rule.group_name ?? undefined,
+    "dc:source": rule.file_path,
+    "prom:for": rule.for_duration ?? undefined,
+    "prom:severity": rule.severity ?? undefined,
+    "prom:category": rule.category ?? undefined,
+    "prom:diagnosedBy": scripts.map((s) => ({
+      "@type": "SoftwareSourceCode",
+      "@id": `urn:ms-tools:script:${s.id}`,
+      name: s.name,
+      codeRepository: s.file_path,
     })),
   };
 }
@@ -0,0 +1,169 @@
+import Database from "better-sqlite3";
+import path from "path";
+import fs from "fs";
+import { parse, parseDocument, isMap, isScalar } from "yaml";
+import type { ScrapeJob } from "./db";
+
+// The Docker component catalog is derived from the monitoring stack's own config files,
+// so the KB lists exactly what `docker compose up` would start.
+const COMPOSE_PATH = "docker/docker-compose.yml";
+const PROMETHEUS_PATH = "docker/prometheus/prometheus.yml";
+
+export interface DiscoveredComponent {
+  name: string;
+  serviceName: string | null;
+  componentType: string;
+  description: string | null;
+  location: string;
+  image: string | null;
+  ports: string[];
+  volumes: string[];
+  dependsOn: string[];
+  scrapeJobs: ScrapeJob[];
+}
+
+interface ComposeService {
+  image?: string;
+  build?: string | { context?: string };
+  ports?: (string | number | { published?: string | number; target?: string | number; protocol?: string })[];
+  volumes?: (string | { source?: string; target?: string; read_only?: boolean })[];
+  depends_on?: string[] | Record<string, unknown>;
+}
+
+interface PrometheusConfig {
+  global?: { scrape_interval?: string };
+  scrape_configs?: {
+    job_name: string;
+    scrape_interval?: string;
+    static_configs?: { targets?: string[] | null }[];
+  }[];
+}
+
+function formatPort(p: NonNullable<ComposeService["ports"]>[number]): string {
+  if (typeof p !== "object") return String(p);
+  const port = p.published !== undefined ? `${p.published}:${p.target}` : String(p.target);
+  return p.protocol && p.protocol !== "tcp" ? `${port}/${p.protocol}` : port;
+}
+
+function formatVolume(v: NonNullable<ComposeService["volumes"]>[number]): string {
+  if (typeof v === "string") return v;
+  return [v.source, v.target, v.read_only ? "ro" : null].filter(Boolean).join(":");
+}
+
+/** Published host port of a compose port mapping ("3000:3000" -> "3000"), or null if unpublished. */
+function publishedPort(mapping: string): string | null {
+  const parts = mapping.replace(/\/\w+$/, "").split(":");
+  return parts.length > 1 ? parts[parts.length - 2] : null;
+}
+
+function readYaml(file: string): string | null {
+  return fs.existsSync(file) ? fs.readFileSync(file, "utf8") : null;
+}
+
+/**
+ * Service comments in docker-compose.yml follow "# Name - Description".
+ * The comment before the first service is attached to the services map itself.
+ */
+function serviceComments(source: string): Map<string, string> {
+  const comments = new Map<string, string>();
+  const services = parseDocument(source).get("services");
+  if (!isMap(services)) return comments;
+  services.items.forEach((pair, i) => {
+    if (!isScalar(pair.key)) return;
+    const comment = pair.key.commentBefore ?? (i === 0 ? services.commentBefore : null);
+    if (comment) comments.set(String(pair.key.value), comment.trim().split("\n").pop()!.trim());
+  });
+  return comments;
+}
+
+function loadScrapeJobs(repoRoot: string): ScrapeJob[] {
+  const source = readYaml(path.join(repoRoot, PROMETHEUS_PATH));
+  if (!source) return [];
+  const config = (parse(source) ?? {}) as PrometheusConfig;
+  const defaultInterval = config.global?.scrape_interval ?? "1m";
+  return (config.scrape_configs ?? []).map((job) => ({
+    job: job.job_name,
+    interval: job.scrape_interval ?? defaultInterval,
+    targets: (job.static_configs ?? []).flatMap((c) => c.targets ?? []),
+  }));
+}
+
+/** A job belongs to a service when it scrapes the service's hostname, or is named after it (self-monitoring). */
+function jobScrapesService(job: ScrapeJob, service: string): boolean {
+  return job.job === service || job.targets.some((t) => t.split(":")[0] === service);
+}
+
+export function discoverDockerComponents(repoRoot: string): DiscoveredComponent[] {
+  const source = readYaml(path.join(repoRoot, COMPOSE_PATH));
+  const compose = (source ? parse(source) : null) as { services?: Record<string, ComposeService> } | null;
+  const comments = source ? serviceComments(source) : new Map<string, string>();
+  const jobs = loadScrapeJobs(repoRoot);
+  const claimed = new Set<string>();
+  const components: DiscoveredComponent[] = [];
+
+  for (const [serviceName, service] of Object.entries(compose?.services ?? {})) {
+    const [title, ...rest] = (comments.get(serviceName) ?? "").split(" - ");
+    const build = typeof service.build === "string" ? service.build : service.build?.context;
+    const scrapeJobs = jobs.filter((j) => jobScrapesService(j, serviceName));
+    scrapeJobs.forEach((j) => claimed.add(j.job));
+
+    components.push({
+      name: title || serviceName,
+      serviceName,
+      componentType: build ? "Custom Build" : "Container",
+      description: rest.join(" - ") || null,
+      location: build ? path.posix.join("docker", build) : COMPOSE_PATH,
+      image: service.image ?? null,
+      ports: (service.ports ?? []).map(formatPort),
+      volumes: (service.volumes ?? []).map(formatVolume),
+      dependsOn: Array.isArray(service.depends_on) ? service.depends_on : Object.keys(service.depends_on ?? {}),
+      scrapeJobs,
+    });
+  }
+
+  // Jobs that scrape hosts outside the stack (Windows servers, custom exporters)
+  for (const job of jobs.filter((j) => !claimed.has(j.job))) {
+    components.push({
+      name: job.job,
+      serviceName: null,
+      componentType: "Scrape Job",
+      description: job.targets.length ? null : "No targets configured yet",
+      location: PROMETHEUS_PATH,
+      image: null,
+      ports: [],
+      volumes: [],
+      dependsOn: [],
+      scrapeJobs: [job],
+    });
+  }
+
+  return components;
+}
+
+/** Docker components carry no KCS history, so the table is simply rebuilt from the config files. */
+export function syncDockerComponents(db: Database.Database, components: DiscoveredComponent[]): number {
+  const insert = db.prepare(
+    `INSERT INTO docker_components
+       (name, service_name, component_type, port, description, location, details, image, ports, volumes, depends_on, scrape_jobs)
+     VALUES (?, ?, ?, ?, ?, ?, NULL, ?, ?, ?, ?, ?)`
+  );
+  db.transaction(() => {
+    db.exec(`DELETE FROM docker_components`);
+    for (const c of components) {
+      insert.run(
+        c.name,
+        c.serviceName,
+        c.componentType,
+        c.ports.map(publishedPort).find((p) => p !== null) ?? null,
+        c.description,
+        c.location,
+        c.image,
+        JSON.stringify(c.ports),
+        JSON.stringify(c.volumes),
+        JSON.stringify(c.dependsOn),
+        JSON.stringify(c.scrapeJobs)
+      );
+    }
+  })();
+  return components.length;
+}
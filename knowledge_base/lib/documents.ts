@@ -0,0 +1,161 @@
+import Database from "better-sqlite3";
+import path from "path";
+import fs from "fs";
+import { Lexer, Tokens } from "marked";
+
+// Markdown guides live next to the scripts: 08-Documentation/** plus READMEs in the script folders
+const CATEGORY_DIR = /^\d{2}-/;
+
+export interface DiscoveredDocument {
+  filePath: string;
+  title: string;
+  section: string;
+  summary: string | null;
+  content: string;
+}
+
+export interface DocumentSyncSummary {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: number;
+  links: number;
+}
+
+function walk(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...walk(full));
+    else if (entry.isFile() && entry.name.toLowerCase().endsWith(".md")) files.push(full);
+  }
+  return files;
+}
+
+/** Strips inline Markdown so a paragraph can be shown as a plain-text summary. */
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`~]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function describe(content: string, fallbackTitle: string): { title: string; summary: string | null } {
+  const tokens = Lexer.lex(content);
+  const heading = tokens.find((t): t is Tokens.Heading => t.type === "heading" && t.depth === 1);
+  const paragraph = tokens.find((t): t is Tokens.Paragraph => t.type === "paragraph");
+  const summary = paragraph ? plainText(paragraph.text) : "";
+  return {
+    title: heading ? plainText(heading.text) : fallbackTitle,
+    summary: summary ? (summary.length > 240 ? `${summary.slice(0, 237)}...` : summary) : null,
+  };
+}
+
+export function discoverDocuments(repoRoot: string): DiscoveredDocument[] {
+  const found: DiscoveredDocument[] = [];
+  const dirs = fs
+    .readdirSync(repoRoot, { withFileTypes: true })
+    .filter((e) => e.isDirectory() && CATEGORY_DIR.test(e.name));
+
+  for (const dir of dirs) {
+    for (const file of walk(path.join(repoRoot, dir.name))) {
+      const filePath = path.relative(repoRoot, file).split(path.sep).join("/");
+      const content = fs.readFileSync(file, "utf8");
+      const folder = path.basename(path.dirname(file)).replace(CATEGORY_DIR, "");
+      found.push({
+        filePath,
+        section: folder,
+        content,
+        ...describe(content, path.basename(file, path.extname(file))),
+      });
+    }
+  }
+  return found.sort((a, b) => a.filePath.localeCompare(b.filePath));
+}
+
+/** Script names are matched as whole words, so `Get-ServerHealth.ps1` counts but `Get-ServerHealthReport` doesn't. */
+export function mentionedScripts(content: string, scripts: { id: number; name: string }[]): number[] {
+  return scripts
+    .filter((s) => {
+      const escaped = s.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      return new RegExp(`(?<![\\w-])${escaped}(?![\\w-])`).test(content);
+    })
+    .map((s) => s.id);
+}
+
+/**
+ * Upserts documents by file path and removes those deleted from the repository.
+ * Links to mentioned scripts are recomputed every run, since either side may have changed.
+ */
+export function syncDocuments(db: Database.Database, documents: DiscoveredDocument[]): DocumentSyncSummary {
+  const selectDoc = db.prepare(`SELECT id, title, section, summary, content FROM documents WHERE file_path = ?`);
+  const insertDoc = db.prepare(
+    `INSERT INTO documents (file_path, title, section, summary, content) VALUES (@filePath, @title, @section, @summary, @content)`
+  );
+  const updateDoc = db.prepare(
+    `UPDATE documents SET title = @title, section = @section, summary = @summary, content = @content,
+       updated_at = CURRENT_TIMESTAMP WHERE id = @id`
+  );
+  const clearLinks = db.prepare(`DELETE FROM document_scripts WHERE document_id = ?`);
+  const insertLink = db.prepare(`INSERT OR IGNORE INTO document_scripts (document_id, script_id) VALUES (?, ?)`);
+
+  const summary: DocumentSyncSummary = { added: [], updated: [], removed: [], unchanged: 0, links: 0 };
+  const scripts = db
+    .prepare(`SELECT id, name FROM scripts WHERE kcs_state != 'retired'`)
+    .all() as { id: number; name: string }[];
+
+  db.transaction(() => {
+    for (const doc of documents) {
+      const existing = selectDoc.get(doc.filePath) as
+        | { id: number; title: string; section: string | null; summary: string | null; content: string }
+        | undefined;
+      let id: number;
+      if (!existing) {
+        id = Number(insertDoc.run(doc).lastInsertRowid);
+        summary.added.push(doc.filePath);
+      } else {
+        id = existing.id;
+        const changed =
+          existing.title !== doc.title ||
+          existing.section !== doc.section ||
+          existing.summary !== doc.summary ||
+          existing.content !== doc.content;
+        if (changed) {
+          updateDoc.run({ ...doc, id });
+          summary.updated.push(doc.filePath);
+        } else {
+          summary.unchanged++;
+        }
+      }
+
+      clearLinks.run(id);
+      for (const scriptId of mentionedScripts(doc.content, scripts)) {
+        summary.links += insertLink.run(id, scriptId).changes;
+      }
+    }
+
+    const paths = new Set(documents.map((d) => d.filePath));
+    const existing = db.prepare(`SELECT id, file_path FROM documents`).all() as { id: number; file_path: string }[];
+    const remove = db.prepare(`DELETE FROM documents WHERE id = ?`);
+    for (const row of existing.filter((r) => !paths.has(r.file_path))) {
+      remove.run(row.id);
+      summary.removed.push(row.file_path);
+    }
+  })();
+
+  return summary;
+}
+
+/**
+ * Resolves a relative link inside a repository Markdown file to a KB page.
+ * `pages` maps repo-relative file paths (documents and scripts) to their KB URLs.
+ */
+export function resolveRepoLink(fromPath: string, href: string, pages: Map<string, string>): string | null {
+  if (/^([a-z][a-z0-9+.-]*:|\/|#)/i.test(href)) return null;
+  const [target, anchor] = href.split("#", 2);
+  const repoPath = path.posix.normalize(path.posix.join(path.posix.dirname(fromPath), decodeURI(target)));
+  const page = pages.get(repoPath.replace(/^\.\//, ""));
+  if (!page) return null;
+  return anchor ? `${page}#${anchor}` : page;
+}
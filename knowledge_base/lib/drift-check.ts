@@ -0,0 +1,47 @@
+import Database from "better-sqlite3";
+import path from "path";
+import { migrate } from "./migrations";
+import { loadKcsMetadata } from "./ingest";
+import { computeDrift, hasDrift } from "./drift";
+
+// Usage: npm run drift [-- --json]
+// Exits with status 1 when the KB has drifted from the script repository.
+
+const DB_PATH = path.join(__dirname, "..", "knowledge.db");
+const REPO_ROOT = path.join(__dirname, "..", "..");
+
+const db = new Database(DB_PATH);
+db.pragma("foreign_keys = ON");
+migrate(db);
+
+const report = computeDrift(db, REPO_ROOT, loadKcsMetadata());
+db.close();
+
+if (process.argv.includes("--json")) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  console.log(`KB drift check against ${REPO_ROOT}`);
+
+  console.log(`  Missing files: ${report.missingFiles.length}`);
+  for (const m of report.missingFiles) console.log(`    - ${m.name} (${m.filePath})`);
+
+  console.log(`  Scripts without a KB article: ${report.untrackedFiles.length}`);
+  for (const f of report.untrackedFiles) console.log(`    - ${f}`);
+
+  console.log(`  Articles out of date: ${report.scripts.length}`);
+  for (const s of report.scripts) {
+    console.log(`    - ${s.name} (${s.filePath})`);
+    for (const p of s.parameters) {
+      const detail =
+        p.change === "required_changed"
+          ? `required ${p.wasRequired ? "yes" : "no"} -> ${p.isRequired ? "yes" : "no"}`
+          : p.change;
+      console.log(`        -${p.name}: ${detail}`);
+    }
+    if (s.synopsis) {
+      console.log(`        synopsis: "${s.synopsis.kb ?? ""}" -> "${s.synopsis.source ?? ""}"`);
+    }
+  }
+}
+
+process.exitCode = hasDrift(report) ? 1 : 0;
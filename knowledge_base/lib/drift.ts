@@ -0,0 +1,127 @@
+import Database from "better-sqlite3";
+import path from "path";
+import fs from "fs";
+import { parseScript } from "./powershell";
+import { discoverScripts, KcsMetadata } from "./ingest";
+
+// Compares the KB against the script repository so the KCS coach can see which
+// articles no longer describe the code they document.
+
+export interface MissingFile {
+  scriptId: number;
+  name: string;
+  filePath: string;
+}
+
+export interface ParameterDrift {
+  name: string;
+  change: "added" | "removed" | "required_changed";
+  // KB vs source value for required_changed
+  wasRequired?: boolean;
+  isRequired?: boolean;
+}
+
+export interface ScriptDrift {
+  scriptId: number;
+  name: string;
+  filePath: string;
+  parameters: ParameterDrift[];
+  synopsis: { kb: string | null; source: string | null } | null;
+}
+
+export interface DriftReport {
+  checkedAt: string;
+  missingFiles: MissingFile[];
+  untrackedFiles: string[];
+  scripts: ScriptDrift[];
+}
+
+interface ArticleRow {
+  id: number;
+  name: string;
+  file_path: string;
+}
+
+function normalize(text: string | null): string {
+  return (text ?? "").replace(/\s+/g, " ").trim();
+}
+
+export function computeDrift(
+  db: Database.Database,
+  repoRoot: string,
+  metadata: Record<string, KcsMetadata> = {}
+): DriftReport {
+  const articles = db
+    .prepare(`SELECT id, name, file_path FROM scripts WHERE kcs_state != 'retired' ORDER BY file_path`)
+    .all() as ArticleRow[];
+  const knownPaths = new Set(
+    (db.prepare(`SELECT file_path FROM scripts`).all() as { file_path: string }[]).map((r) => r.file_path)
+  );
+  const knownNames = new Set(
+    (db.prepare(`SELECT name FROM scripts`).all() as { name: string }[]).map((r) => r.name)
+  );
+  const selectParams = db.prepare(`SELECT name, is_required FROM parameters WHERE script_id = ?`);
+  const selectSynopsis = db.prepare(`SELECT synopsis FROM scripts WHERE id = ?`);
+
+  const report: DriftReport = {
+    checkedAt: new Date().toISOString(),
+    missingFiles: [],
+    untrackedFiles: [],
+    scripts: [],
+  };
+
+  for (const a of articles) {
+    const file = path.join(repoRoot, a.file_path);
+    if (!fs.existsSync(file)) {
+      report.missingFiles.push({ scriptId: a.id, name: a.name, filePath: a.file_path });
+      continue;
+    }
+
+    const parsed = parseScript(fs.readFileSync(file, "utf8"));
+    const kbParams = new Map(
+      (selectParams.all(a.id) as { name: string; is_required: number }[]).map((p) => [p.name, p.is_required === 1])
+    );
+    const parameters: ParameterDrift[] = [];
+    for (const p of parsed.paramBlock) {
+      const kbRequired = kbParams.get(p.name);
+      if (kbRequired === undefined) {
+        parameters.push({ name: p.name, change: "added", isRequired: p.isRequired });
+      } else {
+        kbParams.delete(p.name);
+        if (kbRequired !== p.isRequired) {
+          parameters.push({ name: p.name, change: "required_changed", wasRequired: kbRequired, isRequired: p.isRequired });
+        }
+      }
+    }
+    for (const [name, wasRequired] of kbParams) {
+      parameters.push({ name, change: "removed", wasRequired });
+    }
+
+    const kbSynopsis = (selectSynopsis.get(a.id) as { synopsis: string | null }).synopsis;
+    const synopsis =
+      normalize(kbSynopsis) !== normalize(parsed.synopsis) ? { kb: kbSynopsis, source: parsed.synopsis } : null;
+
+    if (parameters.length > 0 || synopsis) {
+      report.scripts.push({ scriptId: a.id, name: a.name, filePath: a.file_path, parameters, synopsis });
+    }
+  }
+
+  // Scripts in the numbered folders (or assigned by the sidecar) plus any stray root-level .ps1
+  const discovered = discoverScripts(repoRoot, metadata).map((s) => s.filePath);
+  const rootScripts = fs
+    .readdirSync(repoRoot, { withFileTypes: true })
+    .filter((e) => e.isFile() && e.name.toLowerCase().endsWith(".ps1"))
+    .map((e) => e.name);
+  for (const filePath of [...new Set([...discovered, ...rootScripts])].sort()) {
+    const name = path.basename(filePath, path.extname(filePath));
+    if (!knownPaths.has(filePath) && !knownNames.has(name)) {
+      report.untrackedFiles.push(filePath);
+    }
+  }
+
+  return report;
+}
+
+export function hasDrift(report: DriftReport): boolean {
+  return report.missingFiles.length > 0 || report.untrackedFiles.length > 0 || report.scripts.length > 0;
+}
@@ -0,0 +1,251 @@
+import Database from "better-sqlite3";
+import type { KcsState } from "./db";
+
+// Near-duplicate detection. Candidates come from the scripts_fts index (any word of the name or
+// synopsis), then each is scored on how many name, synopsis, tag and parameter tokens the two
+// articles share. The FTS5 rank only nudges the score so two articles that merely share one rare
+// word don't come out on top.
+
+export interface ArticleProfile {
+  name: string;
+  synopsis: string | null;
+  tags: string[];
+  parameters: string[];
+}
+
+export interface FieldSimilarity {
+  name: number;
+  synopsis: number;
+  tags: number;
+  parameters: number;
+}
+
+export interface DuplicateMatch {
+  id: number;
+  name: string;
+  category_name: string;
+  kcs_state: KcsState;
+  /** 0–100 */
+  score: number;
+  /** Token overlap per field, 0–1 */
+  fields: FieldSimilarity;
+}
+
+export interface DuplicateCluster {
+  /** Highest pair score in the cluster */
+  score: number;
+  articles: { id: number; name: string; category_name: string; kcs_state: KcsState }[];
+  pairs: { a: number; b: number; score: number }[];
+}
+
+// Scores at or above this are reported as likely duplicates
+export const DUPLICATE_THRESHOLD = 45;
+
+const CANDIDATE_LIMIT = 20;
+const RANK_WEIGHT = 0.15;
+
+const FIELD_WEIGHTS: FieldSimilarity = { name: 0.35, synopsis: 0.3, tags: 0.15, parameters: 0.2 };
+
+// Words that say nothing about what an article does
+const STOP_WORDS = new Set([
+  "a", "an", "and", "all", "as", "at", "by", "for", "from", "in", "into", "is", "it", "of", "on", "or",
+  "the", "their", "to", "with", "without", "across", "multiple", "specific", "comprehensive",
+]);
+
+/** Lower-case word stems, with PowerShell Verb-Noun and CamelCase names split into words. */
+export function tokenize(text: string | null): Set<string> {
+  if (!text) return new Set();
+  const words = text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/);
+  return new Set(
+    words
+      .filter((w) => w.length > 1 && !STOP_WORDS.has(w))
+      // Crude plural folding so "users" matches "user" and "policies" matches "policy"
+      .map((w) => w.replace(/ies$/, "y").replace(/(?<!s)s$/, ""))
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function lower(values: string[]): Set<string> {
+  return new Set(values.map((v) => v.toLowerCase()));
+}
+
+/**
+ * Per-field token overlap and the weighted total (0–1). A field left empty on either side doesn't
+ * count, so a draft without parameters yet isn't marked down for it.
+ */
+export function compareProfiles(a: ArticleProfile, b: ArticleProfile): { similarity: number; fields: FieldSimilarity } {
+  const pairs: Record<keyof FieldSimilarity, [Set<string>, Set<string>]> = {
+    name: [tokenize(a.name), tokenize(b.name)],
+    synopsis: [tokenize(a.synopsis), tokenize(b.synopsis)],
+    tags: [lower(a.tags), lower(b.tags)],
+    parameters: [lower(a.parameters), lower(b.parameters)],
+  };
+  const fields = {} as FieldSimilarity;
+  let total = 0;
+  let weight = 0;
+  for (const key of Object.keys(pairs) as (keyof FieldSimilarity)[]) {
+    const [x, y] = pairs[key];
+    fields[key] = round(jaccard(x, y), 2);
+    if (x.size === 0 || y.size === 0) continue;
+    total += FIELD_WEIGHTS[key] * jaccard(x, y);
+    weight += FIELD_WEIGHTS[key];
+  }
+  return { similarity: weight ? total / weight : 0, fields };
+}
+
+function round(value: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+type ProfileRow = { id: number; name: string; synopsis: string | null; category_name: string; kcs_state: KcsState };
+
+/** Profiles of the given articles (all of them when `ids` is omitted), keyed by id. */
+function loadProfiles(db: Database.Database, ids?: number[]): Map<number, ProfileRow & ArticleProfile> {
+  const filter = ids ? `WHERE s.id IN (SELECT value FROM json_each(?))` : "";
+  const args = ids ? [JSON.stringify(ids)] : [];
+  const rows = db
+    .prepare(
+      `SELECT s.id, s.name, s.synopsis, c.name AS category_name, s.kcs_state,
+         (SELECT json_group_array(t.name) FROM script_tags st JOIN tags t ON t.id = st.tag_id
+          WHERE st.script_id = s.id) AS tags,
+         (SELECT json_group_array(p.name) FROM parameters p WHERE p.script_id = s.id) AS parameters
+       FROM scripts s JOIN categories c ON c.id = s.category_id ${filter}`
+    )
+    .all(...args) as (ProfileRow & { tags: string; parameters: string })[];
+  return new Map(
+    rows.map((r) => [r.id, { ...r, tags: JSON.parse(r.tags), parameters: JSON.parse(r.parameters) }])
+  );
+}
+
+/** FTS5 matches on any word of the profile's name or synopsis, best first, with bm25 ranks. */
+function ftsCandidates(db: Database.Database, profile: ArticleProfile): { id: number; rank: number }[] {
+  const words = [...new Set([...tokenize(profile.name), ...tokenize(profile.synopsis)])];
+  if (words.length === 0) return [];
+  const query = words.map((w) => `"${w}"*`).join(" OR ");
+  return db
+    .prepare(
+      `SELECT rowid AS id, rank FROM scripts_fts
+       WHERE scripts_fts MATCH ? AND rowid IN (SELECT id FROM scripts WHERE kcs_state != 'retired')
+       ORDER BY rank LIMIT ?`
+    )
+    .all(query, CANDIDATE_LIMIT) as { id: number; rank: number }[];
+}
+
+/**
+ * Existing articles that look like `profile`, most similar first. Used before an article is
+ * created and by the repository import for newly added scripts; pass `excludeId` to leave the
+ * article itself out.
+ */
+export function findDuplicates(
+  db: Database.Database,
+  profile: ArticleProfile,
+  options: { excludeId?: number; threshold?: number; limit?: number } = {}
+): DuplicateMatch[] {
+  const { excludeId, threshold = DUPLICATE_THRESHOLD, limit = 5 } = options;
+  const candidates = ftsCandidates(db, profile).filter((c) => c.id !== excludeId);
+  if (candidates.length === 0) return [];
+
+  // bm25 ranks are negative and only comparable within one query, so scale them to the best match
+  const best = Math.min(...candidates.map((c) => c.rank));
+  const profiles = loadProfiles(db, candidates.map((c) => c.id));
+
+  return candidates
+    .map((c) => {
+      const other = profiles.get(c.id)!;
+      const { similarity, fields } = compareProfiles(profile, other);
+      const rankScore = best < 0 ? c.rank / best : 0;
+      return {
+        id: other.id,
+        name: other.name,
+        category_name: other.category_name,
+        kcs_state: other.kcs_state,
+        score: Math.round(100 * ((1 - RANK_WEIGHT) * similarity + RANK_WEIGHT * rankScore)),
+        fields,
+      };
+    })
+    .filter((m) => m.score >= threshold)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/** findDuplicates() for an article already in the knowledge base. */
+export function findDuplicatesOf(db: Database.Database, scriptId: number, threshold?: number): DuplicateMatch[] {
+  const profile = loadProfiles(db, [scriptId]).get(scriptId);
+  return profile ? findDuplicates(db, profile, { excludeId: scriptId, threshold }) : [];
+}
+
+/**
+ * Groups of live articles linked by likely-duplicate pairs, highest scoring first. A cluster can
+ * hold articles that are only similar through a third one, which is usually where merging starts.
+ */
+export function getDuplicateClusters(db: Database.Database, threshold = DUPLICATE_THRESHOLD): DuplicateCluster[] {
+  const profiles = loadProfiles(db);
+  const pairScores = new Map<string, { a: number; b: number; score: number }>();
+
+  for (const [id, profile] of profiles) {
+    if (profile.kcs_state === "retired") continue;
+    for (const match of findDuplicates(db, profile, { excludeId: id, threshold, limit: CANDIDATE_LIMIT })) {
+      // Ranks are relative to each query, so a pair can score differently each way; keep the higher
+      const [a, b] = id < match.id ? [id, match.id] : [match.id, id];
+      const key = `${a}:${b}`;
+      if ((pairScores.get(key)?.score ?? -1) < match.score) pairScores.set(key, { a, b, score: match.score });
+    }
+  }
+
+  // Union-find over the pairs
+  const parent = new Map<number, number>();
+  const find = (x: number): number => {
+    while (parent.get(x) !== undefined && parent.get(x) !== x) x = parent.get(x)!;
+    return x;
+  };
+  for (const { a, b } of pairScores.values()) {
+    if (!parent.has(a)) parent.set(a, a);
+    if (!parent.has(b)) parent.set(b, b);
+    parent.set(find(a), find(b));
+  }
+
+  const clusters = new Map<number, DuplicateCluster>();
+  for (const pair of pairScores.values()) {
+    const root = find(pair.a);
+    const cluster = clusters.get(root) ?? { score: 0, articles: [], pairs: [] };
+    cluster.pairs.push(pair);
+    cluster.score = Math.max(cluster.score, pair.score);
+    clusters.set(root, cluster);
+  }
+  for (const cluster of clusters.values()) {
+    const ids = [...new Set(cluster.pairs.flatMap((p) => [p.a, p.b]))];
+    cluster.articles = ids
+      .map((id) => profiles.get(id)!)
+      .map(({ id, name, category_name, kcs_state }) => ({ id, name, category_name, kcs_state }))
+      .sort((x, y) => x.name.localeCompare(y.name));
+    cluster.pairs.sort((x, y) => y.score - x.score);
+  }
+  return [...clusters.values()].sort((x, y) => y.score - x.score);
+}
+
+/** Drops articles `isVisible` rejects, and the pairs and clusters they leave incomplete. */
+export function visibleClusters(clusters: DuplicateCluster[], isVisible: (id: number) => boolean): DuplicateCluster[] {
+  return clusters
+    .map((c) => {
+      const pairs = c.pairs.filter((p) => isVisible(p.a) && isVisible(p.b));
+      const ids = new Set(pairs.flatMap((p) => [p.a, p.b]));
+      return {
+        score: Math.max(0, ...pairs.map((p) => p.score)),
+        articles: c.articles.filter((a) => ids.has(a.id)),
+        pairs,
+      };
+    })
+    .filter((c) => c.pairs.length > 0)
+    .sort((x, y) => y.score - x.score);
+}
@@ -0,0 +1,185 @@
+import type { User } from "./auth";
+import { recordContribution } from "./contributors";
+import { getDb, getParametersForScript, getScriptById, getTagsForScript, Script } from "./db";
+import { missingContent } from "./kcs";
+import { getRevision, withRevisionContext } from "./revisions";
+
+// Article edits made in the KB. Edited fields are remembered in `scripts.edited_fields` so the
+// repository sync doesn't overwrite them with the comment-based help on the next seed.
+
+export const EDITABLE_TEXT_FIELDS = ["synopsis", "description", "environment", "resolution", "cause"] as const;
+
+type TextField = (typeof EDITABLE_TEXT_FIELDS)[number];
+
+const MAX_LENGTH: Record<TextField, number> = {
+  synopsis: 500,
+  description: 10000,
+  environment: 2000,
+  resolution: 10000,
+  cause: 2000,
+};
+const MAX_TAGS = 20;
+// Tags are kebab-case like the KCS sidecar's ("active-directory", "disk-space")
+const TAG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const MAX_TAG_LENGTH = 40;
+
+export interface ScriptPatch {
+  fields: Partial<Record<TextField, string | null>>;
+  tags?: string[];
+  parameters?: { name: string; description: string | null }[];
+}
+
+export class EditError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly problems: string[] = []
+  ) {
+    super(message);
+    this.name = "EditError";
+  }
+}
+
+function optionalText(value: unknown, field: string, max: number, problems: string[]): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== "string") {
+    problems.push(`${field} must be a string or null`);
+    return undefined;
+  }
+  const text = value.trim();
+  if (text.length > max) problems.push(`${field} must be at most ${max} characters`);
+  return text || null;
+}
+
+/** Validates a PATCH body; unknown keys are rejected so typos don't silently do nothing. */
+export function parseScriptPatch(body: Record<string, unknown>): { patch: ScriptPatch; problems: string[] } {
+  const problems: string[] = [];
+  const patch: ScriptPatch = { fields: {} };
+  const known = new Set<string>([...EDITABLE_TEXT_FIELDS, "tags", "parameters", "version"]);
+
+  for (const key of Object.keys(body).filter((k) => !known.has(k))) {
+    problems.push(`${key} is not an editable field`);
+  }
+
+  for (const field of EDITABLE_TEXT_FIELDS) {
+    const value = optionalText(body[field], field, MAX_LENGTH[field], problems);
+    if (value !== undefined) patch.fields[field] = value;
+  }
+
+  if (body.tags !== undefined) {
+    if (!Array.isArray(body.tags) || body.tags.some((t) => typeof t !== "string")) {
+      problems.push("tags must be an array of strings");
+    } else {
+      const tags = [...new Set((body.tags as string[]).map((t) => t.trim().toLowerCase().replace(/\s+/g, "-")).filter(Boolean))];
+      if (tags.length > MAX_TAGS) problems.push(`At most ${MAX_TAGS} tags are allowed`);
+      for (const t of tags.filter((t) => !TAG_PATTERN.test(t) || t.length > MAX_TAG_LENGTH)) problems.push(`"${t}" is not a valid tag`);
+      patch.tags = tags;
+    }
+  }
+
+  if (body.parameters !== undefined) {
+    const params = body.parameters;
+    if (!Array.isArray(params) || params.some((p) => typeof p !== "object" || p === null || typeof p.name !== "string")) {
+      problems.push("parameters must be an array of { name, description }");
+    } else {
+      patch.parameters = params.map((p: { name: string; description?: unknown }) => ({
+        name: p.name,
+        description: optionalText(p.description, `parameters.${p.name}.description`, 2000, problems) ?? null,
+      }));
+    }
+  }
+
+  if (Object.keys(patch.fields).length === 0 && !patch.tags && !patch.parameters) {
+    problems.push("Nothing to update");
+  }
+  return { patch, problems };
+}
+
+/**
+ * Applies a validated patch if the article is still at `expectedVersion`, bumping the version
+ * and recording the editor. Published and approved articles must keep the content their state requires.
+ */
+export function editScript(scriptId: number, patch: ScriptPatch, expectedVersion: number, editor: User): Script {
+  const db = getDb();
+  const script = getScriptById(scriptId);
+  if (!script) throw new EditError("Not found", 404);
+  if (script.version !== expectedVersion) {
+    throw new EditError(`Article was changed by someone else (now at version ${script.version})`, 412);
+  }
+
+  const problems = missingContent({ ...script, ...patch.fields }, script.kcs_state);
+  const paramNames = new Set(getParametersForScript(scriptId).map((p) => p.name));
+  for (const p of patch.parameters ?? []) {
+    if (!paramNames.has(p.name)) problems.push(`${script.name} has no parameter ${p.name}`);
+  }
+  if (problems.length) throw new EditError("Edit not allowed", 422, problems);
+
+  const edited = new Set<string>(script.edited_fields ? JSON.parse(script.edited_fields) : []);
+  const fields = Object.keys(patch.fields) as TextField[];
+  fields.forEach((f) => edited.add(f));
+  if (patch.tags) edited.add("tags");
+  patch.parameters?.forEach((p) => edited.add(`parameters.${p.name}`));
+
+  withRevisionContext(db, editor.display_name, () => {
+    const assignments = fields.map((f) => `${f} = @${f}`);
+    const updated = db
+      .prepare(
+        `UPDATE scripts SET ${[...assignments, "version = version + 1", "edited_fields = @edited"].join(", ")}
+         WHERE id = @id AND version = @version`
+      )
+      .run({ ...patch.fields, edited: JSON.stringify([...edited].sort()), id: scriptId, version: expectedVersion });
+    if (updated.changes === 0) throw new EditError("Article was changed by someone else", 412);
+
+    if (patch.tags) {
+      db.prepare(`DELETE FROM script_tags WHERE script_id = ?`).run(scriptId);
+      const insertTag = db.prepare(`INSERT OR IGNORE INTO tags (name) VALUES (?)`);
+      const linkTag = db.prepare(
+        `INSERT OR IGNORE INTO script_tags (script_id, tag_id) SELECT ?, id FROM tags WHERE name = ?`
+      );
+      for (const t of patch.tags) {
+        insertTag.run(t);
+        linkTag.run(scriptId, t);
+      }
+    }
+
+    const updateParam = db.prepare(`UPDATE parameters SET description = ? WHERE script_id = ? AND name = ?`);
+    for (const p of patch.parameters ?? []) {
+      updateParam.run(p.description, scriptId, p.name);
+    }
+
+    recordContribution(db, scriptId, editor, "editor");
+  });
+
+  return getScriptById(scriptId)!;
+}
+
+/**
+ * Brings the editable content (KCS text, tags and parameter descriptions) back to an earlier
+ * revision. This is an ordinary edit, so it appends a new revision rather than rewriting history.
+ * The lifecycle state is left alone since it can only change through a KCS transition.
+ */
+export function restoreRevision(scriptId: number, revision: number, actor: User): Script {
+  const target = getRevision(scriptId, revision);
+  const script = getScriptById(scriptId);
+  if (!target || !script) throw new EditError("Not found", 404);
+
+  const patch: ScriptPatch = { fields: {} };
+  for (const field of EDITABLE_TEXT_FIELDS) {
+    if (script[field] !== target.snapshot[field]) patch.fields[field] = target.snapshot[field];
+  }
+  const tags = getTagsForScript(scriptId).map((t) => t.name);
+  if (tags.join(",") !== target.snapshot.tags.join(",")) patch.tags = target.snapshot.tags;
+
+  // Parameters come from the script source, so only those that still exist can be restored
+  const current = new Map(getParametersForScript(scriptId).map((p) => [p.name, p.description]));
+  const parameters = target.snapshot.parameters.filter(
+    (p) => current.has(p.name) && current.get(p.name) !== p.description
+  );
+  if (parameters.length) patch.parameters = parameters.map((p) => ({ name: p.name, description: p.description }));
+
+  if (Object.keys(patch.fields).length === 0 && !patch.tags && !patch.parameters) {
+    throw new EditError(`Content already matches revision ${revision}`, 409);
+  }
+  return editScript(scriptId, patch, script.version, actor);
+}
@@ -0,0 +1,128 @@
+import { hasRole, User } from "./auth";
+import { getDb } from "./db";
+
+// Reader feedback ("flag it" in KCS terms). Outcomes feed a computed confidence that starts at
+// the manually set value and moves towards what readers report as more ratings come in.
+
+export type FeedbackOutcome = "solved" | "partial" | "not_helpful";
+
+export const FEEDBACK_OUTCOMES: FeedbackOutcome[] = ["solved", "partial", "not_helpful"];
+
+const OUTCOME_SCORES: Record<FeedbackOutcome, number> = { solved: 100, partial: 50, not_helpful: 0 };
+
+// How many ratings the manual confidence is worth; with five ratings both count equally
+const MANUAL_WEIGHT = 5;
+
+export interface Feedback {
+  id: number;
+  script_id: number;
+  outcome: FeedbackOutcome;
+  comment: string | null;
+  reader: string | null;
+  status: "none" | "open" | "resolved";
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface FeedbackSummary {
+  solved: number;
+  partial: number;
+  not_helpful: number;
+  open_flags: number;
+  computed_confidence: number;
+}
+
+export class FeedbackError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "FeedbackError";
+  }
+}
+
+export function isFeedbackOutcome(value: unknown): value is FeedbackOutcome {
+  return typeof value === "string" && value in OUTCOME_SCORES;
+}
+
+export function computeConfidence(manual: number, counts: Record<FeedbackOutcome, number>): number {
+  const ratings = FEEDBACK_OUTCOMES.reduce((n, o) => n + counts[o], 0);
+  const score = FEEDBACK_OUTCOMES.reduce((sum, o) => sum + counts[o] * OUTCOME_SCORES[o], 0);
+  return Math.round((manual * MANUAL_WEIGHT + score) / (MANUAL_WEIGHT + ratings));
+}
+
+export function getFeedbackSummary(scriptId: number): FeedbackSummary {
+  const db = getDb();
+  const row = db
+    .prepare(
+      `SELECT s.confidence,
+         COUNT(f.id) FILTER (WHERE f.outcome = 'solved') AS solved,
+         COUNT(f.id) FILTER (WHERE f.outcome = 'partial') AS partial,
+         COUNT(f.id) FILTER (WHERE f.outcome = 'not_helpful') AS not_helpful,
+         COUNT(f.id) FILTER (WHERE f.status = 'open') AS open_flags
+       FROM scripts s LEFT JOIN feedback f ON f.script_id = s.id
+       WHERE s.id = ? GROUP BY s.id`
+    )
+    .get(scriptId) as (Omit<FeedbackSummary, "computed_confidence"> & { confidence: number }) | undefined;
+  if (!row) return { solved: 0, partial: 0, not_helpful: 0, open_flags: 0, computed_confidence: 0 };
+  const { confidence, ...counts } = row;
+  return { ...counts, computed_confidence: computeConfidence(confidence, counts) };
+}
+
+/**
+ * Whether `user` owns the article's flags: its author, anyone credited as a contributor to it, and
+ * coaches and above. Flags can name readers and describe problems, so only owners see them.
+ */
+export function isFlagOwner(scriptId: number, user: User | null): boolean {
+  if (!user) return false;
+  if (hasRole(user, "coach")) return true;
+  const db = getDb();
+  return !!db
+    .prepare(
+      `SELECT 1 FROM scripts WHERE id = ? AND author_id = ?
+       UNION ALL
+       SELECT 1 FROM contributors WHERE script_id = ? AND user_id = ?`
+    )
+    .get(scriptId, user.id, scriptId, user.id);
+}
+
+/** Flags still waiting for an owner, newest first. */
+export function getOpenFlags(scriptId: number): Feedback[] {
+  const db = getDb();
+  return db
+    .prepare(`SELECT * FROM feedback WHERE script_id = ? AND status = 'open' ORDER BY created_at DESC, id DESC`)
+    .all(scriptId) as Feedback[];
+}
+
+export function addFeedback(
+  scriptId: number,
+  outcome: FeedbackOutcome,
+  comment: string | null,
+  reader: string | null
+): Feedback {
+  const db = getDb();
+  const exists = db.prepare(`SELECT 1 FROM scripts WHERE id = ?`).get(scriptId);
+  if (!exists) throw new FeedbackError("Not found", 404);
+  const status = outcome !== "solved" || comment ? "open" : "none";
+  const result = db
+    .prepare(`INSERT INTO feedback (script_id, outcome, comment, reader, status) VALUES (?, ?, ?, ?, ?)`)
+    .run(scriptId, outcome, comment, reader, status);
+  return db.prepare(`SELECT * FROM feedback WHERE id = ?`).get(result.lastInsertRowid) as Feedback;
+}
+
+export function resolveFlag(scriptId: number, feedbackId: number, user: User): Feedback {
+  const db = getDb();
+  if (!isFlagOwner(scriptId, user)) {
+    throw new FeedbackError("Only the article's author, contributors and coaches can resolve its flags", 403);
+  }
+  const result = db
+    .prepare(
+      `UPDATE feedback SET status = 'resolved', resolved_by = ?, resolved_at = datetime('now')
+       WHERE id = ? AND script_id = ? AND status = 'open'`
+    )
+    .run(user.display_name, feedbackId, scriptId);
+  if (result.changes === 0) throw new FeedbackError("No open flag with that id", 404);
+  return db.prepare(`SELECT * FROM feedback WHERE id = ?`).get(feedbackId) as Feedback;
+}
@@ -0,0 +1,145 @@
+import Database from "better-sqlite3";
+import { execFileSync } from "child_process";
+import type { DiscoveredScript } from "./ingest";
+
+// Reads commit history for repository files with the local git CLI.
+// Everything here degrades to "no history" when git or the .git directory isn't available.
+
+export interface FileCommit {
+  sha: string;
+  authorName: string;
+  authorEmail: string;
+  committedAt: string;
+  subject: string;
+}
+
+export interface FileHistory {
+  firstCommit: FileCommit;
+  lastCommit: FileCommit;
+  /** Newest first, capped at the requested limit */
+  recent: FileCommit[];
+  /** Every distinct author with the date of their latest commit to the file */
+  authors: { name: string; email: string; lastCommitAt: string }[];
+}
+
+const FIELD = "\x1f";
+const RECORD = "\x1e";
+
+function git(repoRoot: string, args: string[]): string | null {
+  try {
+    return execFileSync("git", ["-C", repoRoot, ...args], {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+      maxBuffer: 16 * 1024 * 1024,
+    });
+  } catch {
+    return null;
+  }
+}
+
+export function isGitRepository(repoRoot: string): boolean {
+  return git(repoRoot, ["rev-parse", "--is-inside-work-tree"])?.trim() === "true";
+}
+
+/** Full history of one file, following renames. Returns null for untracked files. */
+export function readFileHistory(repoRoot: string, filePath: string, limit = 10): FileHistory | null {
+  const out = git(repoRoot, [
+    "log",
+    "--follow",
+    `--format=${RECORD}%H${FIELD}%an${FIELD}%ae${FIELD}%aI${FIELD}%s`,
+    "--",
+    filePath,
+  ]);
+  if (!out) return null;
+
+  const commits: FileCommit[] = out
+    .split(RECORD)
+    .map((r) => r.trim())
+    .filter(Boolean)
+    .map((r) => {
+      const [sha, authorName, authorEmail, committedAt, subject] = r.split(FIELD);
+      return { sha, authorName, authorEmail, committedAt, subject };
+    });
+  if (commits.length === 0) return null;
+
+  const authors = new Map<string, { name: string; email: string; lastCommitAt: string }>();
+  for (const c of commits) {
+    // Newest first, so the first commit seen per author is their latest
+    if (!authors.has(c.authorName)) {
+      authors.set(c.authorName, { name: c.authorName, email: c.authorEmail, lastCommitAt: c.committedAt });
+    }
+  }
+
+  return {
+    firstCommit: commits[commits.length - 1],
+    lastCommit: commits[0],
+    recent: commits.slice(0, limit),
+    authors: [...authors.values()],
+  };
+}
+
+export interface GitSyncSummary {
+  withHistory: number;
+  withoutHistory: string[];
+  editors: number;
+}
+
+/**
+ * Takes created_at / last_modified_at from the first and last commit touching each file, keeps the
+ * most recent commits for the "Recent changes" timeline, and records commit authors as editors.
+ * A commit is not a review, so `last_reviewed_at` is left to reviews made in the KB.
+ */
+export function syncGitHistory(
+  db: Database.Database,
+  repoRoot: string,
+  scripts: DiscoveredScript[],
+  limit = 10
+): GitSyncSummary {
+  const selectId = db.prepare(`SELECT id FROM scripts WHERE name = ?`);
+  const updateDates = db.prepare(`UPDATE scripts SET created_at = ?, last_modified_at = ? WHERE id = ?`);
+  const clearCommits = db.prepare(`DELETE FROM script_commits WHERE script_id = ?`);
+  const insertCommit = db.prepare(
+    `INSERT INTO script_commits (script_id, sha, author_name, author_email, committed_at, subject) VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  const selectEditor = db.prepare(
+    `SELECT id, contributed_at FROM contributors WHERE script_id = ? AND name = ? AND contribution_type = 'editor'`
+  );
+  const insertEditor = db.prepare(
+    `INSERT INTO contributors (script_id, name, contribution_type, contributed_at) VALUES (?, ?, 'editor', ?)`
+  );
+  const touchEditor = db.prepare(`UPDATE contributors SET contributed_at = ? WHERE id = ?`);
+
+  const summary: GitSyncSummary = { withHistory: 0, withoutHistory: [], editors: 0 };
+
+  db.transaction(() => {
+    for (const s of scripts) {
+      const row = selectId.get(s.name) as { id: number } | undefined;
+      if (!row) continue;
+      const history = readFileHistory(repoRoot, s.filePath, limit);
+      if (!history) {
+        summary.withoutHistory.push(s.name);
+        continue;
+      }
+      summary.withHistory++;
+
+      updateDates.run(history.firstCommit.committedAt, history.lastCommit.committedAt, row.id);
+
+      clearCommits.run(row.id);
+      for (const c of history.recent) {
+        insertCommit.run(row.id, c.sha, c.authorName, c.authorEmail, c.committedAt, c.subject);
+      }
+
+      for (const a of history.authors) {
+        const editor = selectEditor.get(row.id, a.name) as { id: number; contributed_at: string } | undefined;
+        if (!editor) {
+          insertEditor.run(row.id, a.name, a.lastCommitAt);
+          summary.editors++;
+        } else if (editor.contributed_at !== a.lastCommitAt) {
+          touchEditor.run(a.lastCommitAt, editor.id);
+        }
+      }
+    }
+  })();
+
+  return summary;
+}
@@ -0,0 +1,51 @@
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import type { NextRequest } from "next/server";
+import { AuthError, getSessionUser, hasRole, Role, ROLE_LABELS, User } from "./auth";
+
+// Request-side half of lib/auth.ts: reads the session cookie in API routes and pages.
+
+export const SESSION_COOKIE = "kb_session";
+
+export function sessionCookie(token: string, expires: Date) {
+  return {
+    name: SESSION_COOKIE,
+    value: token,
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires,
+  };
+}
+
+/** The signed-in user for an API request, or null. */
+export function getRequestUser(request: NextRequest): User | null {
+  return getSessionUser(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * Guard for API routes: the signed-in user if they hold `role` (or a higher one).
+ * Throws AuthError with 401 when nobody is signed in and 403 when the role is too low.
+ */
+export function requireRole(request: NextRequest, role: Role): User {
+  const user = getRequestUser(request);
+  if (!user) throw new AuthError("Sign in to do this", 401);
+  if (!hasRole(user, role)) throw new AuthError(`This needs the ${ROLE_LABELS[role]} role`, 403);
+  return user;
+}
+
+/** The signed-in user for a page render, or null. */
+export async function getCurrentUser(): Promise<User | null> {
+  const store = await cookies();
+  return getSessionUser(store.get(SESSION_COOKIE)?.value);
+}
+
+/** Guard for pages: sends anyone without `role` to the sign-in page, then back to `path`. */
+export async function requirePageRole(role: Role, path: string): Promise<User> {
+  const user = await getCurrentUser();
+  if (!hasRole(user, role)) {
+    redirect(`/login?next=${encodeURIComponent(path)}&role=${role}`);
+  }
+  return user!;
+}
@@ -0,0 +1,92 @@
+import { isStringStart, skipString } from "./powershell";
+
+// Minimal PowerShell syntax highlighter for the server-rendered source view.
+// Produces tokens per line so the page can render numbered, anchorable lines.
+
+export type TokenType =
+  | "comment"
+  | "string"
+  | "variable"
+  | "keyword"
+  | "command"
+  | "parameter"
+  | "type"
+  | "number"
+  | "text";
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+const KEYWORDS = new Set([
+  "begin", "break", "catch", "class", "continue", "data", "do", "dynamicparam", "else", "elseif",
+  "end", "enum", "exit", "filter", "finally", "for", "foreach", "function", "if", "in", "param",
+  "process", "return", "switch", "throw", "trap", "try", "until", "using", "while",
+]);
+
+function scanToken(source: string, i: number): { type: TokenType; end: number } {
+  const ch = source[i];
+  const rest = source.slice(i);
+
+  if (source.startsWith("<#", i)) {
+    const close = source.indexOf("#>", i + 2);
+    return { type: "comment", end: close === -1 ? source.length : close + 2 };
+  }
+  if (ch === "#") {
+    const nl = source.indexOf("\n", i);
+    return { type: "comment", end: nl === -1 ? source.length : nl };
+  }
+  if (isStringStart(source, i)) {
+    return { type: "string", end: skipString(source, i) };
+  }
+
+  let m: RegExpMatchArray | null;
+  if ((m = rest.match(/^\$\{[^}]*\}|^\$(?:[\w]+:)?[\w?^$]+/))) {
+    return { type: "variable", end: i + m[0].length };
+  }
+  if ((m = rest.match(/^\[[\w.]+(?:\[\])?\]/))) {
+    return { type: "type", end: i + m[0].length };
+  }
+  if ((m = rest.match(/^-[A-Za-z][\w]*/)) && !/[\w)\]]/.test(source[i - 1] ?? "")) {
+    return { type: "parameter", end: i + m[0].length };
+  }
+  if ((m = rest.match(/^(?:0x[0-9a-f]+|\d+(?:\.\d+)?)(?:[kmgtp]b)?\b/i)) && !/\w/.test(source[i - 1] ?? "")) {
+    return { type: "number", end: i + m[0].length };
+  }
+  if ((m = rest.match(/^[A-Za-z_][\w]*(?:-[A-Za-z][\w]*)*/))) {
+    const word = m[0];
+    if (/^[A-Za-z]+-[A-Za-z]\w*$/.test(word)) return { type: "command", end: i + word.length };
+    if (KEYWORDS.has(word.toLowerCase())) return { type: "keyword", end: i + word.length };
+    return { type: "text", end: i + word.length };
+  }
+  return { type: "text", end: i + 1 };
+}
+
+/** Tokenizes PowerShell source and splits the tokens into lines (multi-line tokens are split too). */
+export function highlightPowerShell(source: string): Token[][] {
+  const text = source.replace(/\r\n/g, "\n");
+  const lines: Token[][] = [[]];
+  const push = (type: TokenType, value: string) => {
+    const parts = value.split("\n");
+    parts.forEach((part, idx) => {
+      if (idx > 0) lines.push([]);
+      if (!part) return;
+      const line = lines[lines.length - 1];
+      const last = line[line.length - 1];
+      // Merge adjacent plain text so the markup stays small
+      if (last && last.type === type && type === "text") last.text += part;
+      else line.push({ type, text: part });
+    });
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const { type, end } = scanToken(text, i);
+    push(type, text.slice(i, end));
+    i = end;
+  }
+  // A trailing newline doesn't start a real line
+  if (lines.length > 1 && lines[lines.length - 1].length === 0 && text.endsWith("\n")) lines.pop();
+  return lines;
+}
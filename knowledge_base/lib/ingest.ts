@@ -0,0 +1,466 @@
+import Database from "better-sqlite3";
+import path from "path";
+import fs from "fs";
+import { parseScript, ParsedExample, ParsedParameter, ParsedScript } from "./powershell";
+import type { KcsState } from "./db";
+import { findDuplicatesOf } from "./duplicates";
+import { recordTransition } from "./kcs";
+import { withRevisionContext } from "./revisions";
+
+// Script folders follow the repo's numbered layout: 01-Infrastructure/<Subcategory>/<Script>.ps1
+const CATEGORY_DIR = /^\d{2}-/;
+
+// Recorded as the actor for state changes made by the seeder rather than a person
+const SYNC_ACTOR = "repository sync";
+const FILE_REMOVED = "Script file was removed from the repository";
+
+// KCS fields can't be derived from the .ps1 source, so they live in an optional sidecar file
+export const METADATA_PATH = path.join(__dirname, "..", "kcs-metadata.json");
+
+export interface KcsMetadata {
+  state?: KcsState;
+  environment?: string;
+  resolution?: string;
+  cause?: string;
+  confidence?: number;
+  author?: string;
+  tags?: string[];
+  // Prometheus alert names this script helps diagnose
+  alerts?: string[];
+  // Only needed for scripts outside the numbered category folders
+  category?: string;
+  subcategory?: string;
+}
+
+export interface DiscoveredScript {
+  name: string;
+  filePath: string;
+  categorySlug: string;
+  subcategory: string | null;
+  parsed: ParsedScript;
+}
+
+export function loadKcsMetadata(file: string = METADATA_PATH): Record<string, KcsMetadata> {
+  if (!fs.existsSync(file)) return {};
+  return JSON.parse(fs.readFileSync(file, "utf8")) as Record<string, KcsMetadata>;
+}
+
+function walk(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...walk(full));
+    else if (entry.isFile() && entry.name.toLowerCase().endsWith(".ps1")) files.push(full);
+  }
+  return files;
+}
+
+function toRepoPath(repoRoot: string, file: string): string {
+  return path.relative(repoRoot, file).split(path.sep).join("/");
+}
+
+/** Finds every .ps1 under the numbered category folders, plus root-level scripts the sidecar assigns a category. */
+export function discoverScripts(
+  repoRoot: string,
+  metadata: Record<string, KcsMetadata> = {}
+): DiscoveredScript[] {
+  const found: DiscoveredScript[] = [];
+
+  for (const entry of fs.readdirSync(repoRoot, { withFileTypes: true })) {
+    if (entry.isDirectory() && CATEGORY_DIR.test(entry.name)) {
+      const categoryDir = path.join(repoRoot, entry.name);
+      for (const file of walk(categoryDir)) {
+        const name = path.basename(file, path.extname(file));
+        const [sub, ...rest] = path.relative(categoryDir, file).split(path.sep);
+        found.push({
+          name,
+          filePath: toRepoPath(repoRoot, file),
+          categorySlug: metadata[name]?.category ?? entry.name.toLowerCase(),
+          subcategory: metadata[name]?.subcategory ?? (rest.length ? sub : null),
+          parsed: parseScript(fs.readFileSync(file, "utf8")),
+        });
+      }
+    } else if (entry.isFile() && entry.name.toLowerCase().endsWith(".ps1")) {
+      const name = path.basename(entry.name, path.extname(entry.name));
+      const meta = metadata[name];
+      if (!meta?.category) continue;
+      const file = path.join(repoRoot, entry.name);
+      found.push({
+        name,
+        filePath: toRepoPath(repoRoot, file),
+        categorySlug: meta.category,
+        subcategory: meta.subcategory ?? null,
+        parsed: parseScript(fs.readFileSync(file, "utf8")),
+      });
+    }
+  }
+
+  return found.sort((a, b) => a.filePath.localeCompare(b.filePath));
+}
+
+export interface SyncSummary {
+  added: string[];
+  updated: string[];
+  retired: string[];
+  restored: string[];
+  unchanged: number;
+  skipped: string[];
+  /** Added articles that look like existing ones (see lib/duplicates.ts) */
+  duplicates: { name: string; matches: { name: string; score: number }[] }[];
+}
+
+interface ExistingScript {
+  id: number;
+  category_id: number;
+  file_path: string;
+  subcategory: string | null;
+  synopsis: string | null;
+  description: string | null;
+  supports_whatif: number;
+  supports_csv_export: number;
+  kcs_state: KcsState;
+  environment: string | null;
+  resolution: string | null;
+  cause: string | null;
+  confidence: number;
+  author: string | null;
+  edited_fields: string | null;
+}
+
+const PARAMETER_COLUMNS = [
+  "description", "is_required", "default_value", "type", "validate_set", "validate_range_min",
+  "validate_range_max", "validate_pattern", "parameter_sets", "aliases", "position",
+  "value_from_pipeline", "value_from_pipeline_by_property_name",
+] as const;
+
+type ParameterColumns = Record<(typeof PARAMETER_COLUMNS)[number], string | number | null>;
+
+function parameterColumns(p: ParsedParameter): ParameterColumns {
+  return {
+    description: p.description,
+    is_required: p.isRequired ? 1 : 0,
+    default_value: p.defaultValue,
+    type: p.type,
+    validate_set: p.validateSet ? JSON.stringify(p.validateSet) : null,
+    validate_range_min: p.validateRange?.min ?? null,
+    validate_range_max: p.validateRange?.max ?? null,
+    validate_pattern: p.validatePattern,
+    parameter_sets: p.parameterSets.length ? JSON.stringify(p.parameterSets) : null,
+    aliases: p.aliases.length ? JSON.stringify(p.aliases) : null,
+    position: p.position,
+    value_from_pipeline: p.valueFromPipeline ? 1 : 0,
+    value_from_pipeline_by_property_name: p.valueFromPipelineByPropertyName ? 1 : 0,
+  };
+}
+
+/**
+ * Upserts discovered scripts keyed on `scripts.name`. Fields parsed from the .ps1, and the sidecar
+ * fields and tags an article's sidecar entry names, are refreshed on every run unless they were
+ * edited in the KB (`scripts.edited_fields`); fields the sidecar leaves out are kept. The sidecar's
+ * state is followed until someone moves the article through the lifecycle; usage counters are only
+ * seeded for new articles. Scripts whose file disappeared are soft-retired, never deleted.
+ */
+export function syncScripts(
+  db: Database.Database,
+  scripts: DiscoveredScript[],
+  metadata: Record<string, KcsMetadata> = {}
+): SyncSummary {
+  const summary: SyncSummary = {
+    added: [],
+    updated: [],
+    retired: [],
+    restored: [],
+    unchanged: 0,
+    skipped: [],
+    duplicates: [],
+  };
+  const categoryIds = new Map(
+    (db.prepare(`SELECT id, slug FROM categories`).all() as { id: number; slug: string }[]).map(
+      (c) => [c.slug, c.id]
+    )
+  );
+
+  const selectScript = db.prepare(
+    `SELECT id, category_id, file_path, subcategory, synopsis, description, supports_whatif, supports_csv_export, kcs_state, environment, resolution, cause, confidence, author, edited_fields FROM scripts WHERE name = ?`
+  );
+  const insertScript = db.prepare(
+    `INSERT INTO scripts (category_id, name, file_path, subcategory, synopsis, description, supports_whatif, supports_csv_export, kcs_state, environment, resolution, cause, confidence, author) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  // A new author name is linked to an account again by linkUserRecords after the sync
+  const updateScript = db.prepare(
+    `UPDATE scripts SET category_id = @category_id, file_path = @file_path, subcategory = @subcategory,
+       synopsis = @synopsis, description = @description, supports_whatif = @supports_whatif,
+       supports_csv_export = @supports_csv_export, environment = @environment, resolution = @resolution,
+       cause = @cause, confidence = @confidence, author = @author,
+       author_id = CASE WHEN author IS @author THEN author_id END
+     WHERE id = @id`
+  );
+  const bumpVersion = db.prepare(`UPDATE scripts SET version = version + 1 WHERE id = ?`);
+  // Articles only keep a replacement while retired, and the sync never names one
+  const setState = db.prepare(
+    `UPDATE scripts SET kcs_state = ?, superseded_by = NULL, superseded_reason = NULL WHERE id = ?`
+  );
+  const lastTransition = db.prepare(
+    `SELECT actor, reason FROM script_state_history WHERE script_id = ? ORDER BY transitioned_at DESC, id DESC LIMIT 1`
+  );
+  const selectParams = db.prepare(
+    `SELECT id, name, ${PARAMETER_COLUMNS.join(", ")} FROM parameters WHERE script_id = ?`
+  );
+  const insertParam = db.prepare(
+    `INSERT INTO parameters (script_id, name, ${PARAMETER_COLUMNS.join(", ")})
+     VALUES (@script_id, @name, ${PARAMETER_COLUMNS.map((c) => `@${c}`).join(", ")})`
+  );
+  const updateParam = db.prepare(
+    `UPDATE parameters SET ${PARAMETER_COLUMNS.map((c) => `${c} = @${c}`).join(", ")} WHERE id = @id`
+  );
+  const deleteParam = db.prepare(`DELETE FROM parameters WHERE id = ?`);
+  const insertTag = db.prepare(`INSERT OR IGNORE INTO tags (name) VALUES (?)`);
+  const selectTag = db.prepare(`SELECT id FROM tags WHERE name = ?`);
+  const insertScriptTag = db.prepare(`INSERT OR IGNORE INTO script_tags (script_id, tag_id) VALUES (?, ?)`);
+  const selectScriptTags = db.prepare(
+    `SELECT t.name FROM script_tags st JOIN tags t ON t.id = st.tag_id WHERE st.script_id = ?`
+  );
+  const deleteScriptTag = db.prepare(
+    `DELETE FROM script_tags WHERE script_id = ? AND tag_id = (SELECT id FROM tags WHERE name = ?)`
+  );
+  const insertContributor = db.prepare(
+    `INSERT INTO contributors (script_id, name, contribution_type) VALUES (?, ?, ?)`
+  );
+  const selectContributor = db.prepare(
+    `SELECT 1 FROM contributors WHERE script_id = ? AND name = ? AND contribution_type = ?`
+  );
+
+  // Returns true when anything about the parameter list changed.
+  // Descriptions edited in the KB are kept over the comment-based help.
+  function syncParameters(scriptId: number, s: DiscoveredScript, edited = new Set<string>()): boolean {
+    const existing = new Map(
+      (selectParams.all(scriptId) as (ParameterColumns & { id: number; name: string })[]).map(
+        (p) => [p.name, p]
+      )
+    );
+    let changed = false;
+    for (const p of s.parsed.paramBlock) {
+      const row = existing.get(p.name);
+      const values = parameterColumns(p);
+      if (row && edited.has(`parameters.${p.name}`)) values.description = row.description;
+      if (!row) {
+        insertParam.run({ script_id: scriptId, name: p.name, ...values });
+        changed = true;
+      } else {
+        existing.delete(p.name);
+        if (PARAMETER_COLUMNS.some((c) => row[c] !== values[c])) {
+          updateParam.run({ id: row.id, ...values });
+          changed = true;
+        }
+      }
+    }
+    for (const stale of existing.values()) {
+      deleteParam.run(stale.id);
+      changed = true;
+    }
+    return changed;
+  }
+
+  const selectExamples = db.prepare(
+    `SELECT command, explanation FROM examples WHERE script_id = ? ORDER BY sort_order`
+  );
+  const deleteExamples = db.prepare(`DELETE FROM examples WHERE script_id = ?`);
+  const insertExample = db.prepare(
+    `INSERT INTO examples (script_id, sort_order, command, explanation) VALUES (?, ?, ?, ?)`
+  );
+
+  // Examples carry no history of their own, so a changed list is simply replaced
+  function syncExamples(scriptId: number, s: DiscoveredScript): boolean {
+    const existing = selectExamples.all(scriptId) as ParsedExample[];
+    const parsed = s.parsed.examples;
+    const same =
+      existing.length === parsed.length &&
+      existing.every((e, i) => e.command === parsed[i].command && e.explanation === parsed[i].explanation);
+    if (same) return false;
+    deleteExamples.run(scriptId);
+    parsed.forEach((e, i) => insertExample.run(scriptId, i, e.command, e.explanation));
+    return true;
+  }
+
+  function addTags(scriptId: number, tags: string[]) {
+    for (const t of tags) {
+      insertTag.run(t);
+      insertScriptTag.run(scriptId, (selectTag.get(t) as { id: number }).id);
+    }
+  }
+
+  // Returns true when tags were added or dropped to match the sidecar
+  function syncTags(scriptId: number, tags: string[]): boolean {
+    const current = new Set((selectScriptTags.all(scriptId) as { name: string }[]).map((t) => t.name));
+    const wanted = new Set(tags);
+    const stale = [...current].filter((t) => !wanted.has(t));
+    const added = [...wanted].filter((t) => !current.has(t));
+    for (const t of stale) deleteScriptTag.run(scriptId, t);
+    addTags(scriptId, added);
+    return stale.length > 0 || added.length > 0;
+  }
+
+  // One revision per article for the whole run, attributed to the sync
+  withRevisionContext(db, SYNC_ACTOR, () => {
+    const seen = new Set<string>();
+    for (const s of scripts) {
+      seen.add(s.name);
+      const catId = categoryIds.get(s.categorySlug);
+      if (catId === undefined) {
+        console.warn(`Skipping ${s.filePath}: unknown category "${s.categorySlug}"`);
+        summary.skipped.push(s.name);
+        continue;
+      }
+      const kcs = metadata[s.name] ?? {};
+      const fields = {
+        category_id: catId,
+        file_path: s.filePath,
+        subcategory: s.subcategory,
+        synopsis: s.parsed.synopsis,
+        description: s.parsed.description,
+        supports_whatif: s.parsed.supportsWhatIf ? 1 : 0,
+        supports_csv_export: s.parsed.supportsCsvExport ? 1 : 0,
+      };
+      const existing = selectScript.get(s.name) as ExistingScript | undefined;
+
+      if (!existing) {
+        const result = insertScript.run(
+          catId, s.name, s.filePath, s.subcategory, s.parsed.synopsis, s.parsed.description,
+          fields.supports_whatif, fields.supports_csv_export,
+          kcs.state || "draft",
+          kcs.environment || null,
+          kcs.resolution || null,
+          kcs.cause || null,
+          kcs.confidence ?? 0,
+          kcs.author || s.parsed.author || "MS Tools Team"
+        );
+        const scriptId = Number(result.lastInsertRowid);
+        recordTransition(db, scriptId, null, kcs.state || "draft", "Imported from the script repository", SYNC_ACTOR);
+        syncParameters(scriptId, s);
+        syncExamples(scriptId, s);
+        addTags(scriptId, kcs.tags ?? []);
+        if (kcs.author) {
+          insertContributor.run(scriptId, kcs.author, "author");
+        }
+        summary.added.push(s.name);
+        continue;
+      }
+
+      const edited = new Set<string>(existing.edited_fields ? JSON.parse(existing.edited_fields) : []);
+      const sourced = {
+        ...fields,
+        environment: kcs.environment === undefined ? existing.environment : kcs.environment || null,
+        resolution: kcs.resolution === undefined ? existing.resolution : kcs.resolution || null,
+        cause: kcs.cause === undefined ? existing.cause : kcs.cause || null,
+        confidence: kcs.confidence ?? existing.confidence,
+        author: kcs.author || existing.author,
+      };
+      for (const f of ["synopsis", "description", "environment", "resolution", "cause", "author"] as const) {
+        if (edited.has(f)) sourced[f] = existing[f];
+      }
+      if (edited.has("confidence")) sourced.confidence = existing.confidence;
+
+      let changed = (Object.keys(sourced) as (keyof typeof sourced)[]).some(
+        (k) => existing[k] !== sourced[k]
+      );
+      if (changed) updateScript.run({ ...sourced, id: existing.id });
+      const newAuthor = sourced.author !== existing.author ? sourced.author : null;
+      if (newAuthor && !selectContributor.get(existing.id, newAuthor, "author")) {
+        insertContributor.run(existing.id, newAuthor, "author");
+      }
+      changed = syncParameters(existing.id, s, edited) || changed;
+      changed = syncExamples(existing.id, s) || changed;
+      if (kcs.tags && !edited.has("tags")) changed = syncTags(existing.id, kcs.tags) || changed;
+
+      // The sidecar only decides the state while the sync made the last transition; articles moved
+      // through the lifecycle (including retirements) keep their state
+      const last = lastTransition.get(existing.id) as { actor: string; reason: string } | undefined;
+      const restored = existing.kcs_state === "retired" && last?.reason === FILE_REMOVED;
+      const state = kcs.state ?? (restored ? "draft" : existing.kcs_state);
+      const moved = state !== existing.kcs_state && last?.actor === SYNC_ACTOR;
+      if (moved) {
+        setState.run(state, existing.id);
+        recordTransition(
+          db, existing.id, existing.kcs_state, state,
+          restored ? "Script file is back in the repository" : "State changed in the KCS metadata", SYNC_ACTOR
+        );
+      }
+      if (changed || moved) bumpVersion.run(existing.id);
+
+      if (moved && restored) {
+        summary.restored.push(s.name);
+      } else if (changed || moved) {
+        summary.updated.push(s.name);
+      } else {
+        summary.unchanged++;
+      }
+    }
+
+    const active = db
+      .prepare(`SELECT id, name, kcs_state FROM scripts WHERE kcs_state != 'retired'`)
+      .all() as { id: number; name: string; kcs_state: KcsState }[];
+    for (const row of active) {
+      if (!seen.has(row.name)) {
+        setState.run("retired", row.id);
+        recordTransition(db, row.id, row.kcs_state, "retired", FILE_REMOVED, SYNC_ACTOR);
+        summary.retired.push(row.name);
+      }
+    }
+
+    syncDependencies(db, scripts);
+  });
+
+  const findId = db.prepare(`SELECT id FROM scripts WHERE name = ?`);
+  const addedIds = new Set(summary.added.map((name) => (findId.get(name) as { id: number }).id));
+  for (const name of summary.added) {
+    const { id } = findId.get(name) as { id: number };
+    // Two new articles alike are one pair, reported under the older of them
+    const matches = findDuplicatesOf(db, id)
+      .filter((m) => !(addedIds.has(m.id) && m.id < id))
+      .map((m) => ({ name: m.name, score: m.score }));
+    if (matches.length) summary.duplicates.push({ name, matches });
+  }
+  return summary;
+}
+
+/**
+ * Rebuilds module requirements and script-to-script relations from the parsed sources.
+ * They are derived data with no KB edits of their own, so every run replaces them.
+ */
+export function syncDependencies(db: Database.Database, scripts: DiscoveredScript[]): void {
+  const ids = new Map(
+    (db.prepare(`SELECT id, name FROM scripts`).all() as { id: number; name: string }[]).map(
+      (r) => [r.name.toLowerCase(), r.id]
+    )
+  );
+  const clearModules = db.prepare(`DELETE FROM script_modules WHERE script_id = ?`);
+  const clearDependencies = db.prepare(`DELETE FROM script_dependencies WHERE script_id = ?`);
+  const insertModule = db.prepare(
+    `INSERT OR IGNORE INTO script_modules (script_id, module_name, source) VALUES (?, ?, ?)`
+  );
+  const insertDependency = db.prepare(
+    `INSERT OR IGNORE INTO script_dependencies (script_id, depends_on_id, kind) VALUES (?, ?, ?)`
+  );
+
+  for (const s of scripts) {
+    const scriptId = ids.get(s.name.toLowerCase());
+    if (scriptId === undefined) continue;
+    const deps = s.parsed.dependencies;
+    clearModules.run(scriptId);
+    clearDependencies.run(scriptId);
+
+    // #Requires is inserted first so it wins over a matching Import-Module
+    for (const m of deps.requiredModules) insertModule.run(scriptId, m, "requires");
+    for (const m of deps.importedModules) insertModule.run(scriptId, m, "import");
+
+    // A sibling script used as a command (on PATH or dot-sourced) counts as a call too
+    const link = (names: string[], kind: "calls" | "references") => {
+      for (const name of names) {
+        const target = ids.get(name.toLowerCase());
+        if (target !== undefined && target !== scriptId) insertDependency.run(scriptId, target, kind);
+      }
+    };
+    link([...deps.invokedScripts, ...deps.commands], "calls");
+    link(deps.referencedScripts, "references");
+  }
+}
@@ -0,0 +1,186 @@
+import Database from "better-sqlite3";
+import { hasRole, Role, ROLE_LABELS, ROLES, User } from "./auth";
+import { getDb, getScriptById, KcsState, Script } from "./db";
+import { withRevisionContext } from "./revisions";
+
+// KCS v6 article lifecycle. Draft is "work in progress", approved is validated for internal use,
+// published is visible to everyone and retired is archived. Articles only move one step at a time,
+// so a draft can't be published or retired without first being validated.
+export const KCS_TRANSITIONS: Record<KcsState, KcsState[]> = {
+  draft: ["approved"],
+  approved: ["published", "draft", "retired"],
+  published: ["draft", "retired"],
+  retired: ["draft"],
+};
+
+// Who may move an article into each state: contributors send articles back to draft, coaches
+// validate them and publishers decide what is published or retired
+export const TRANSITION_ROLES: Record<KcsState, Role> = {
+  draft: "contributor",
+  approved: "coach",
+  published: "publisher",
+  retired: "publisher",
+};
+
+// Leaving these states undoes a publisher's decision, so it takes a publisher as well, whatever
+// the target state needs
+const LEAVE_ROLES: Partial<Record<KcsState, Role>> = {
+  published: "publisher",
+  retired: "publisher",
+};
+
+// Content an article must have before it can enter a state
+const REQUIRED_FIELDS: Partial<Record<KcsState, { field: keyof Script; label: string }[]>> = {
+  approved: [{ field: "resolution", label: "resolution" }],
+  published: [
+    { field: "resolution", label: "resolution" },
+    { field: "environment", label: "environment" },
+  ],
+};
+
+export interface StateTransition {
+  id: number;
+  script_id: number;
+  from_state: KcsState | null;
+  to_state: KcsState;
+  reason: string;
+  actor: string;
+  transitioned_at: string;
+}
+
+export class TransitionError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly problems: string[] = []
+  ) {
+    super(message);
+    this.name = "TransitionError";
+  }
+}
+
+/** The least role that may move an article from `from` to `to`. */
+export function transitionRole(from: KcsState, to: KcsState): Role {
+  const leave = LEAVE_ROLES[from];
+  const enter = TRANSITION_ROLES[to];
+  return leave && ROLES.indexOf(leave) > ROLES.indexOf(enter) ? leave : enter;
+}
+
+export function isKcsState(value: unknown): value is KcsState {
+  return typeof value === "string" && value in KCS_TRANSITIONS;
+}
+
+/** Content rules the article fails for state `to`, regardless of where it is now. */
+export function missingContent(script: Script, to: KcsState): string[] {
+  return (REQUIRED_FIELDS[to] ?? [])
+    .filter(({ field }) => !String(script[field] ?? "").trim())
+    .map(({ label }) => `A ${label} is required before an article can be ${to}`);
+}
+
+/** Reasons the article can't enter `to` from its current state; empty when the move is allowed. */
+export function transitionProblems(script: Script, to: KcsState): string[] {
+  if (!KCS_TRANSITIONS[script.kcs_state].includes(to)) {
+    return [`Cannot move from ${script.kcs_state} to ${to}`];
+  }
+  return missingContent(script, to);
+}
+
+/** Appends to the state history; used by the transition API and by the repository sync. */
+export function recordTransition(
+  db: Database.Database,
+  scriptId: number,
+  from: KcsState | null,
+  to: KcsState,
+  reason: string,
+  actor: string
+): void {
+  db.prepare(
+    `INSERT INTO script_state_history (script_id, from_state, to_state, reason, actor) VALUES (?, ?, ?, ?, ?)`
+  ).run(scriptId, from, to, reason, actor);
+}
+
+/** Reasons `replacementId` can't stand in for the article; empty when it can. */
+function replacementProblems(script: Script, replacementId: number): string[] {
+  const replacement = getScriptById(replacementId);
+  if (!replacement) return ["The replacement article doesn't exist"];
+  if (replacement.id === script.id) return ["An article can't replace itself"];
+  // Only retired articles point at a replacement, so a live replacement can't lead back here
+  if (replacement.kcs_state === "retired") return [`${replacement.name} is retired itself`];
+  return [];
+}
+
+/**
+ * Moves an article to `to`. Retiring can name the article that replaces it, with the transition
+ * reason kept as the supersession reason; leaving retired drops the replacement again. Bumps the
+ * version so an edit started before the move is refused.
+ */
+export function transitionScript(
+  scriptId: number,
+  to: KcsState,
+  reason: string,
+  actor: User,
+  replacementId: number | null = null
+): Script {
+  const db = getDb();
+  const script = getScriptById(scriptId);
+  if (!script) throw new TransitionError("Not found", 404);
+  const role = transitionRole(script.kcs_state, to);
+  if (!hasRole(actor, role)) {
+    throw new TransitionError(
+      `Only a ${ROLE_LABELS[role]} or above can move an article from ${script.kcs_state} to ${to}`,
+      403
+    );
+  }
+
+  const problems = transitionProblems(script, to);
+  if (replacementId !== null) {
+    if (to !== "retired") problems.push("Only retired articles can have a replacement");
+    else problems.push(...replacementProblems(script, replacementId));
+  }
+  if (problems.length) throw new TransitionError("Transition not allowed", 422, problems);
+
+  withRevisionContext(db, actor.display_name, () => {
+    // Guard against a concurrent transition having moved the article in the meantime
+    const moved = db
+      .prepare(
+        `UPDATE scripts SET kcs_state = ?, superseded_by = ?, superseded_reason = ?, version = version + 1
+         WHERE id = ? AND kcs_state = ?`
+      )
+      .run(to, replacementId, replacementId === null ? null : reason, scriptId, script.kcs_state);
+    if (moved.changes === 0) throw new TransitionError("Article state changed, reload and try again", 409);
+    recordTransition(db, scriptId, script.kcs_state, to, reason, actor.display_name);
+  });
+
+  return getScriptById(scriptId)!;
+}
+
+/** Names (or, with null, clears) the replacement of an article that is already retired. */
+export function setReplacement(scriptId: number, replacementId: number | null, reason: string, actor: User): Script {
+  const db = getDb();
+  const script = getScriptById(scriptId);
+  if (!script) throw new TransitionError("Not found", 404);
+  if (!hasRole(actor, TRANSITION_ROLES.retired)) {
+    throw new TransitionError(`Only a ${ROLE_LABELS[TRANSITION_ROLES.retired]} or above can change a replacement`, 403);
+  }
+  if (script.kcs_state !== "retired") {
+    throw new TransitionError("Only retired articles can have a replacement", 422);
+  }
+  const problems = replacementId === null ? [] : replacementProblems(script, replacementId);
+  if (problems.length) throw new TransitionError("Replacement not allowed", 422, problems);
+
+  withRevisionContext(db, actor.display_name, () => {
+    db.prepare(`UPDATE scripts SET superseded_by = ?, superseded_reason = ? WHERE id = ?`).run(
+      replacementId,
+      replacementId === null ? null : reason,
+      scriptId
+    );
+  });
+  return getScriptById(scriptId)!;
+}
+
+export function getStateHistory(scriptId: number): StateTransition[] {
+  const db = getDb();
+  return db
+    .prepare(`SELECT * FROM script_state_history WHERE script_id = ? ORDER BY transitioned_at DESC, id DESC`)
+    .all(scriptId) as StateTransition[];
+}
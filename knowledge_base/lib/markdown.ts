@@ -0,0 +1,91 @@
+import { Marked, Tokens } from "marked";
+
+// Server-side Markdown rendering for KB content. Raw HTML in the source is escaped rather
+// than passed through, and only http(s), mailto and relative links are emitted.
+
+export interface MarkdownOptions {
+  /** Maps a link target (e.g. a relative `.md` path) to a KB URL; return null to leave it unchanged. */
+  resolveLink?: (href: string) => string | null;
+  /** Names to turn into links wherever they appear in prose (not inside code or existing links). */
+  mentions?: Map<string, string>;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function safeHref(href: string): string | null {
+  // Browsers drop tabs, newlines and control characters from URLs, so "java\tscript:" is still a
+  // javascript: link; read the scheme the way the browser will
+  const scheme = href.replace(/[\u0000-\u0020\u007f]/g, "").match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+  if (scheme && !["http", "https", "mailto"].includes(scheme)) return null;
+  return href;
+}
+
+/** GitHub-style heading anchor: lowercase, punctuation and emoji dropped, spaces to hyphens. */
+export function headingSlug(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/<[^>]*>/g, "")
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .trim()
+    .replace(/\s/g, "-");
+}
+
+function mentionPattern(names: Iterable<string>): RegExp | null {
+  const sorted = [...names].sort((a, b) => b.length - a.length);
+  if (sorted.length === 0) return null;
+  const alternatives = sorted.map((n) => n.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|");
+  return new RegExp(`(?<![\\w-])(${alternatives})(?![\\w-])`, "g");
+}
+
+export function renderMarkdown(source: string, options: MarkdownOptions = {}): string {
+  const pattern = options.mentions ? mentionPattern(options.mentions.keys()) : null;
+  let linkDepth = 0;
+
+  const linkTarget = (href: string) => safeHref(options.resolveLink?.(href) ?? href);
+
+  const marked = new Marked({ gfm: true });
+  marked.use({
+    renderer: {
+      html({ text }: Tokens.HTML | Tokens.Tag) {
+        return escapeHtml(text);
+      },
+      heading({ tokens, depth }: Tokens.Heading) {
+        const body = this.parser.parseInline(tokens);
+        return `<h${depth} id="${escapeHtml(headingSlug(body))}">${body}</h${depth}>\n`;
+      },
+      link({ href, title, tokens }: Tokens.Link) {
+        linkDepth++;
+        const text = this.parser.parseInline(tokens);
+        linkDepth--;
+        const target = linkTarget(href);
+        if (target === null) return text;
+        const titleAttr = title ? ` title="${escapeHtml(title)}"` : "";
+        return `<a href="${escapeHtml(target)}"${titleAttr}>${text}</a>`;
+      },
+      image({ href, title, text }: Tokens.Image) {
+        const target = linkTarget(href);
+        if (target === null) return escapeHtml(text);
+        const titleAttr = title ? ` title="${escapeHtml(title)}"` : "";
+        return `<img src="${escapeHtml(target)}" alt="${escapeHtml(text)}"${titleAttr}>`;
+      },
+      text(token: Tokens.Text | Tokens.Escape) {
+        if ("tokens" in token && token.tokens) return this.parser.parseInline(token.tokens);
+        const escaped = "escaped" in token && token.escaped ? token.text : escapeHtml(token.text);
+        if (!pattern || linkDepth > 0) return escaped;
+        return escaped.replace(
+          pattern,
+          (name) => `<a href="${escapeHtml(options.mentions!.get(name)!)}" class="mention">${name}</a>`
+        );
+      },
+    },
+  });
+
+  return marked.parse(source, { async: false }) as string;
+}
@@ -0,0 +1,187 @@
+import { getDb, KcsState, Viewer, visibleCategories, visibleScripts } from "./db";
+
+// KCS program health: the numbers the KCS coach reports every month. Retired articles are left out
+// of the confidence, review age and view rankings since nobody is expected to maintain them.
+
+export interface CategoryMetrics {
+  slug: string;
+  name: string;
+  total: number;
+  draft: number;
+  approved: number;
+  published: number;
+  retired: number;
+}
+
+export interface Bucket {
+  label: string;
+  count: number;
+}
+
+export interface ViewedArticle {
+  id: number;
+  name: string;
+  category_name: string;
+  kcs_state: KcsState;
+  view_count: number;
+}
+
+export interface CycleTime {
+  /** Number of draft → published runs found in the state history */
+  samples: number;
+  averageDays: number | null;
+  medianDays: number | null;
+  fastestDays: number | null;
+  slowestDays: number | null;
+}
+
+export interface KcsMetrics {
+  generatedAt: string;
+  total: number;
+  byState: Record<KcsState, number>;
+  byCategory: CategoryMetrics[];
+  confidence: { average: number | null; distribution: Bucket[] };
+  reviewAge: { averageDays: number | null; neverReviewed: number; distribution: Bucket[] };
+  cycleTime: CycleTime;
+  mostViewed: ViewedArticle[];
+  leastViewed: ViewedArticle[];
+  /** Categories without a single published article */
+  unpublishedCategories: CategoryMetrics[];
+}
+
+// Each bucket holds values from its lower bound up to the next bucket's
+const CONFIDENCE_BUCKETS = [
+  { label: "0–19%", min: 0 },
+  { label: "20–39%", min: 20 },
+  { label: "40–59%", min: 40 },
+  { label: "60–79%", min: 60 },
+  { label: "80–100%", min: 80 },
+];
+
+const REVIEW_AGE_BUCKETS = [
+  { label: "Under 30 days", min: 0 },
+  { label: "30–90 days", min: 30 },
+  { label: "90–180 days", min: 90 },
+  { label: "180–365 days", min: 180 },
+  { label: "Over a year", min: 365 },
+];
+
+function bucketize(values: number[], buckets: { label: string; min: number }[]): Bucket[] {
+  const counts = buckets.map((b) => ({ label: b.label, count: 0 }));
+  for (const v of values) {
+    const i = buckets.findLastIndex((b) => v >= b.min);
+    counts[Math.max(i, 0)].count++;
+  }
+  return counts;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function average(values: number[]): number | null {
+  return values.length ? round(values.reduce((a, b) => a + b, 0) / values.length) : null;
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return round(sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/**
+ * Days from an article entering draft to being published, one sample per publication. The
+ * baseline rows written when state history was introduced have no `from_state` and are skipped,
+ * since they don't say when the article actually got there.
+ */
+function getCycleTime(): CycleTime {
+  const db = getDb();
+  const days = (
+    db
+      .prepare(
+        `SELECT julianday(p.transitioned_at) - julianday((
+           SELECT MAX(d.transitioned_at) FROM script_state_history d
+           WHERE d.script_id = p.script_id AND d.to_state = 'draft' AND d.transitioned_at <= p.transitioned_at
+         )) AS days
+         FROM script_state_history p
+         WHERE p.to_state = 'published' AND p.from_state IS NOT NULL`
+      )
+      .all() as { days: number | null }[]
+  )
+    .map((r) => r.days)
+    .filter((d): d is number => d !== null);
+
+  return {
+    samples: days.length,
+    averageDays: average(days),
+    medianDays: median(days),
+    fastestDays: days.length ? round(Math.min(...days)) : null,
+    slowestDays: days.length ? round(Math.max(...days)) : null,
+  };
+}
+
+/** Counts and rankings cover only what `viewer` may see; the cycle time is aggregate and covers everything. */
+export function getKcsMetrics(viewer: Viewer, limit = 5): KcsMetrics {
+  const db = getDb();
+
+  const byCategory = db
+    .prepare(
+      `SELECT c.slug, c.name, COUNT(s.id) AS total,
+         COUNT(*) FILTER (WHERE s.kcs_state = 'draft') AS draft,
+         COUNT(*) FILTER (WHERE s.kcs_state = 'approved') AS approved,
+         COUNT(*) FILTER (WHERE s.kcs_state = 'published') AS published,
+         COUNT(*) FILTER (WHERE s.kcs_state = 'retired') AS retired
+       FROM categories c LEFT JOIN scripts s ON s.category_id = c.id AND ${visibleScripts(viewer)}
+       WHERE ${visibleCategories(viewer)}
+       GROUP BY c.id ORDER BY c.sort_order`
+    )
+    .all() as CategoryMetrics[];
+
+  const byState: Record<KcsState, number> = { draft: 0, approved: 0, published: 0, retired: 0 };
+  for (const c of byCategory) {
+    byState.draft += c.draft;
+    byState.approved += c.approved;
+    byState.published += c.published;
+    byState.retired += c.retired;
+  }
+
+  const active = db
+    .prepare(
+      `SELECT confidence, julianday('now') - julianday(last_reviewed_at) AS review_age
+       FROM scripts s WHERE s.kcs_state != 'retired' AND ${visibleScripts(viewer)}`
+    )
+    .all() as { confidence: number; review_age: number | null }[];
+  const confidences = active.map((a) => a.confidence);
+  const reviewAges = active.map((a) => a.review_age).filter((d): d is number => d !== null);
+
+  const viewed = (direction: "ASC" | "DESC") =>
+    db
+      .prepare(
+        `SELECT s.id, s.name, c.name AS category_name, s.kcs_state, s.view_count
+         FROM scripts s JOIN categories c ON s.category_id = c.id
+         WHERE s.kcs_state != 'retired' AND ${visibleScripts(viewer)}
+         ORDER BY s.view_count ${direction}, s.name LIMIT ?`
+      )
+      .all(limit) as ViewedArticle[];
+
+  return {
+    generatedAt: new Date().toISOString(),
+    total: byCategory.reduce((n, c) => n + c.total, 0),
+    byState,
+    byCategory,
+    confidence: {
+      average: average(confidences),
+      distribution: bucketize(confidences, CONFIDENCE_BUCKETS),
+    },
+    reviewAge: {
+      averageDays: average(reviewAges),
+      neverReviewed: active.length - reviewAges.length,
+      distribution: bucketize(reviewAges, REVIEW_AGE_BUCKETS),
+    },
+    cycleTime: getCycleTime(),
+    mostViewed: viewed("DESC"),
+    leastViewed: viewed("ASC"),
+    unpublishedCategories: byCategory.filter((c) => c.published === 0),
+  };
+}
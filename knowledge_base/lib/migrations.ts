@@ -0,0 +1,732 @@
+import Database from "better-sqlite3";
+
+// Schema migrations, applied in order and tracked with PRAGMA user_version.
+// Never edit a migration that has shipped — append a new one instead.
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+  // Table rebuilds (e.g. changing a CHECK constraint) need foreign keys off while the
+  // old table is dropped; the runner re-enables them and verifies integrity afterwards.
+  disableForeignKeys?: boolean;
+}
+
+// Every write to an article's row, parameters or tags refreshes the open revision of the current
+// batch, or appends a new revision if the snapshot differs from the latest one. `when` limits the
+// trigger to some rows.
+function snapshotTrigger(name: string, event: string, table: string, scriptId: string, when = ""): string {
+  return `
+        CREATE TRIGGER ${name} AFTER ${event} ON ${table}${when ? ` WHEN ${when}` : ""} BEGIN
+          UPDATE script_revisions
+          SET snapshot = (SELECT snapshot FROM script_snapshots WHERE script_id = ${scriptId})
+          WHERE id = (SELECT MAX(id) FROM script_revisions WHERE script_id = ${scriptId})
+            AND batch = (SELECT batch FROM revision_context);
+
+          INSERT INTO script_revisions (script_id, revision, snapshot, actor, batch)
+          SELECT v.script_id,
+            COALESCE((SELECT MAX(revision) FROM script_revisions WHERE script_id = v.script_id), 0) + 1,
+            v.snapshot,
+            COALESCE((SELECT actor FROM revision_context), 'direct database write'),
+            (SELECT batch FROM revision_context)
+          FROM script_snapshots v
+          WHERE v.script_id = ${scriptId}
+            AND v.snapshot IS NOT (
+              SELECT snapshot FROM script_revisions WHERE script_id = v.script_id ORDER BY revision DESC LIMIT 1
+            );
+        END;
+      `;
+}
+
+// The scripts columns that make up a snapshot (see the script_snapshots view)
+const SNAPSHOT_COLUMNS = [
+  "name", "category_id", "subcategory", "file_path", "synopsis", "description", "kcs_state", "environment",
+  "resolution", "cause", "confidence", "author", "supports_whatif", "supports_csv_export",
+];
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    // IF NOT EXISTS so databases created before migrations existed are adopted as-is
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS categories (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          slug TEXT UNIQUE NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          sort_order INTEGER DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS scripts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          category_id INTEGER NOT NULL REFERENCES categories(id),
+          name TEXT NOT NULL,
+          file_path TEXT NOT NULL,
+          subcategory TEXT,
+          synopsis TEXT,
+          description TEXT,
+          supports_whatif INTEGER DEFAULT 0,
+          supports_csv_export INTEGER DEFAULT 0,
+          created_at TEXT DEFAULT (datetime('now')),
+          -- KCS (Knowledge-Centered Service) fields
+          kcs_state TEXT DEFAULT 'draft' CHECK(kcs_state IN ('draft','approved','published','retired')),
+          environment TEXT,
+          resolution TEXT,
+          cause TEXT,
+          confidence INTEGER DEFAULT 0 CHECK(confidence >= 0 AND confidence <= 100),
+          view_count INTEGER DEFAULT 0,
+          last_reviewed_at TEXT,
+          author TEXT,
+          UNIQUE(name)
+        );
+
+        CREATE TABLE IF NOT EXISTS parameters (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          description TEXT,
+          is_required INTEGER DEFAULT 0,
+          default_value TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS docker_components (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          component_type TEXT NOT NULL,
+          port TEXT,
+          description TEXT,
+          location TEXT,
+          details TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS tags (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS script_tags (
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+          PRIMARY KEY (script_id, tag_id)
+        );
+
+        -- KCS article contributors (reuse & improve tracking)
+        CREATE TABLE IF NOT EXISTS contributors (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          contribution_type TEXT NOT NULL CHECK(contribution_type IN ('author','reviewer','editor','contributor')),
+          contributed_at TEXT DEFAULT (datetime('now'))
+        );
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS scripts_fts USING fts5(
+          name, synopsis, description, subcategory, environment, resolution, cause,
+          content='scripts', content_rowid='id'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS scripts_ai AFTER INSERT ON scripts BEGIN
+          INSERT INTO scripts_fts(rowid, name, synopsis, description, subcategory, environment, resolution, cause)
+          VALUES (new.id, new.name, new.synopsis, new.description, new.subcategory, new.environment, new.resolution, new.cause);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS scripts_ad AFTER DELETE ON scripts BEGIN
+          INSERT INTO scripts_fts(scripts_fts, rowid, name, synopsis, description, subcategory, environment, resolution, cause)
+          VALUES ('delete', old.id, old.name, old.synopsis, old.description, old.subcategory, old.environment, old.resolution, old.cause);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS scripts_au AFTER UPDATE ON scripts BEGIN
+          INSERT INTO scripts_fts(scripts_fts, rowid, name, synopsis, description, subcategory, environment, resolution, cause)
+          VALUES ('delete', old.id, old.name, old.synopsis, old.description, old.subcategory, old.environment, old.resolution, old.cause);
+          INSERT INTO scripts_fts(rowid, name, synopsis, description, subcategory, environment, resolution, cause)
+          VALUES (new.id, new.name, new.synopsis, new.description, new.subcategory, new.environment, new.resolution, new.cause);
+        END;
+      `),
+  },
+  {
+    version: 2,
+    name: "rich parameter model",
+    // List-valued attributes (ValidateSet, parameter sets, aliases) are stored as JSON arrays
+    up: (db) =>
+      db.exec(`
+        ALTER TABLE parameters ADD COLUMN type TEXT;
+        ALTER TABLE parameters ADD COLUMN validate_set TEXT;
+        ALTER TABLE parameters ADD COLUMN validate_range_min TEXT;
+        ALTER TABLE parameters ADD COLUMN validate_range_max TEXT;
+        ALTER TABLE parameters ADD COLUMN validate_pattern TEXT;
+        ALTER TABLE parameters ADD COLUMN parameter_sets TEXT;
+        ALTER TABLE parameters ADD COLUMN aliases TEXT;
+        ALTER TABLE parameters ADD COLUMN position INTEGER;
+        ALTER TABLE parameters ADD COLUMN value_from_pipeline INTEGER DEFAULT 0;
+        ALTER TABLE parameters ADD COLUMN value_from_pipeline_by_property_name INTEGER DEFAULT 0;
+      `),
+  },
+  {
+    version: 3,
+    name: "usage examples",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE examples (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          command TEXT NOT NULL,
+          explanation TEXT
+        );
+
+        CREATE INDEX idx_examples_script ON examples(script_id, sort_order);
+
+        CREATE VIRTUAL TABLE examples_fts USING fts5(
+          command, explanation,
+          content='examples', content_rowid='id'
+        );
+
+        CREATE TRIGGER examples_ai AFTER INSERT ON examples BEGIN
+          INSERT INTO examples_fts(rowid, command, explanation)
+          VALUES (new.id, new.command, new.explanation);
+        END;
+
+        CREATE TRIGGER examples_ad AFTER DELETE ON examples BEGIN
+          INSERT INTO examples_fts(examples_fts, rowid, command, explanation)
+          VALUES ('delete', old.id, old.command, old.explanation);
+        END;
+
+        CREATE TRIGGER examples_au AFTER UPDATE ON examples BEGIN
+          INSERT INTO examples_fts(examples_fts, rowid, command, explanation)
+          VALUES ('delete', old.id, old.command, old.explanation);
+          INSERT INTO examples_fts(rowid, command, explanation)
+          VALUES (new.id, new.command, new.explanation);
+        END;
+      `),
+  },
+  {
+    version: 4,
+    name: "docker components from compose and prometheus config",
+    // ports, volumes, depends_on and scrape_jobs are JSON arrays; `port` keeps the first published host port
+    up: (db) =>
+      db.exec(`
+        ALTER TABLE docker_components ADD COLUMN service_name TEXT;
+        ALTER TABLE docker_components ADD COLUMN image TEXT;
+        ALTER TABLE docker_components ADD COLUMN ports TEXT;
+        ALTER TABLE docker_components ADD COLUMN volumes TEXT;
+        ALTER TABLE docker_components ADD COLUMN depends_on TEXT;
+        ALTER TABLE docker_components ADD COLUMN scrape_jobs TEXT;
+      `),
+  },
+  {
+    version: 5,
+    name: "prometheus alert rules",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE alert_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL,
+          group_name TEXT,
+          expr TEXT NOT NULL,
+          for_duration TEXT,
+          severity TEXT,
+          category TEXT,
+          summary TEXT,
+          description TEXT,
+          file_path TEXT NOT NULL
+        );
+
+        CREATE TABLE script_alert_rules (
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          alert_rule_id INTEGER NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+          PRIMARY KEY (script_id, alert_rule_id)
+        );
+
+        CREATE INDEX idx_script_alert_rules_rule ON script_alert_rules(alert_rule_id);
+      `),
+  },
+  {
+    version: 6,
+    name: "markdown documents",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE documents (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          file_path TEXT UNIQUE NOT NULL,
+          title TEXT NOT NULL,
+          section TEXT,
+          summary TEXT,
+          content TEXT NOT NULL,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE document_scripts (
+          document_id INTEGER NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          PRIMARY KEY (document_id, script_id)
+        );
+
+        CREATE INDEX idx_document_scripts_script ON document_scripts(script_id);
+
+        CREATE VIRTUAL TABLE documents_fts USING fts5(
+          title, content, content='documents', content_rowid='id'
+        );
+
+        CREATE TRIGGER documents_ai AFTER INSERT ON documents BEGIN
+          INSERT INTO documents_fts(rowid, title, content) VALUES (new.id, new.title, new.content);
+        END;
+
+        CREATE TRIGGER documents_ad AFTER DELETE ON documents BEGIN
+          INSERT INTO documents_fts(documents_fts, rowid, title, content)
+          VALUES ('delete', old.id, old.title, old.content);
+        END;
+
+        CREATE TRIGGER documents_au AFTER UPDATE ON documents BEGIN
+          INSERT INTO documents_fts(documents_fts, rowid, title, content)
+          VALUES ('delete', old.id, old.title, old.content);
+          INSERT INTO documents_fts(rowid, title, content) VALUES (new.id, new.title, new.content);
+        END;
+      `),
+  },
+  {
+    version: 7,
+    name: "script dependencies",
+    // source: how the module is pulled in; kind: 'calls' runs the other script, 'references' only names it
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE script_modules (
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          module_name TEXT NOT NULL,
+          source TEXT NOT NULL CHECK(source IN ('requires', 'import')),
+          PRIMARY KEY (script_id, module_name)
+        );
+
+        CREATE INDEX idx_script_modules_module ON script_modules(module_name);
+
+        CREATE TABLE script_dependencies (
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          depends_on_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          kind TEXT NOT NULL CHECK(kind IN ('calls', 'references')),
+          PRIMARY KEY (script_id, depends_on_id)
+        );
+
+        CREATE INDEX idx_script_dependencies_target ON script_dependencies(depends_on_id);
+      `),
+  },
+  {
+    version: 8,
+    name: "git history",
+    up: (db) =>
+      db.exec(`
+        ALTER TABLE scripts ADD COLUMN last_modified_at TEXT;
+
+        CREATE TABLE script_commits (
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          sha TEXT NOT NULL,
+          author_name TEXT NOT NULL,
+          author_email TEXT,
+          committed_at TEXT NOT NULL,
+          subject TEXT NOT NULL,
+          PRIMARY KEY (script_id, sha)
+        );
+
+        CREATE INDEX idx_script_commits_date ON script_commits(script_id, committed_at DESC);
+
+        -- Until now the seeder stamped last_reviewed_at with the seed time; only keep real reviews
+        UPDATE scripts SET last_reviewed_at = NULL
+        WHERE id NOT IN (SELECT script_id FROM contributors WHERE contribution_type = 'reviewer');
+      `),
+  },
+  {
+    version: 9,
+    name: "kcs state history",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE script_state_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          from_state TEXT CHECK(from_state IN ('draft', 'approved', 'published', 'retired')),
+          to_state TEXT NOT NULL CHECK(to_state IN ('draft', 'approved', 'published', 'retired')),
+          reason TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          transitioned_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+        );
+
+        CREATE INDEX idx_script_state_history_script ON script_state_history(script_id, transitioned_at);
+
+        -- Start every existing article's history with the state it already has.
+        -- Until now only the repository sync could retire articles, so it stays able to restore them.
+        INSERT INTO script_state_history (script_id, from_state, to_state, reason, actor, transitioned_at)
+        SELECT id, NULL, kcs_state, 'State at the time history tracking was introduced',
+          CASE kcs_state WHEN 'retired' THEN 'repository sync' ELSE 'system' END,
+          strftime('%Y-%m-%dT%H:%M:%SZ', COALESCE(created_at, 'now'))
+        FROM scripts;
+      `),
+  },
+  {
+    version: 10,
+    name: "article editing",
+    up: (db) =>
+      db.exec(`
+        -- Bumped on every change to the article so concurrent edits can be detected
+        ALTER TABLE scripts ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+        -- JSON array of fields edited in the KB, which the repository sync then leaves alone
+        -- ("synopsis", "tags", "parameters.ComputerName", ...)
+        ALTER TABLE scripts ADD COLUMN edited_fields TEXT;
+      `),
+  },
+  {
+    version: 11,
+    name: "article revisions",
+    up: (db) => {
+      db.exec(`
+        -- Snapshot of everything that makes up an article, excluding counters and bookkeeping
+        CREATE VIEW script_snapshots AS
+        SELECT s.id AS script_id, json_object(
+          'name', s.name,
+          'category', (SELECT slug FROM categories WHERE id = s.category_id),
+          'subcategory', s.subcategory,
+          'file_path', s.file_path,
+          'synopsis', s.synopsis,
+          'description', s.description,
+          'kcs_state', s.kcs_state,
+          'environment', s.environment,
+          'resolution', s.resolution,
+          'cause', s.cause,
+          'confidence', s.confidence,
+          'author', s.author,
+          'supports_whatif', s.supports_whatif,
+          'supports_csv_export', s.supports_csv_export,
+          'tags', json((
+            SELECT json_group_array(name) FROM (
+              SELECT t.name FROM script_tags st JOIN tags t ON t.id = st.tag_id
+              WHERE st.script_id = s.id ORDER BY t.name
+            )
+          )),
+          'parameters', json((
+            SELECT json_group_array(json_object(
+              'name', name, 'description', description, 'type', type,
+              'is_required', is_required, 'default_value', default_value
+            )) FROM (SELECT * FROM parameters WHERE script_id = s.id ORDER BY id)
+          ))
+        ) AS snapshot
+        FROM scripts s;
+
+        CREATE TABLE script_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          script_id INTEGER NOT NULL REFERENCES scripts(id),
+          revision INTEGER NOT NULL,
+          snapshot TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          -- Set while app code groups several writes into one revision (see lib/revisions.ts)
+          batch TEXT,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+          UNIQUE (script_id, revision)
+        );
+
+        -- Single row naming who is writing; absent for writes made outside the app
+        CREATE TABLE revision_context (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          actor TEXT NOT NULL,
+          batch TEXT NOT NULL
+        );
+
+        -- Revisions are append-only, except the open revision of the batch currently being written
+        CREATE TRIGGER script_revisions_bu BEFORE UPDATE ON script_revisions
+        WHEN OLD.batch IS NULL OR OLD.batch IS NOT (SELECT batch FROM revision_context)
+        BEGIN
+          SELECT RAISE(ABORT, 'script revisions are immutable');
+        END;
+
+        CREATE TRIGGER script_revisions_bd BEFORE DELETE ON script_revisions BEGIN
+          SELECT RAISE(ABORT, 'script revisions are immutable');
+        END;
+      `);
+
+      db.exec(
+        [
+          snapshotTrigger("scripts_revision_ai", "INSERT", "scripts", "NEW.id"),
+          snapshotTrigger("scripts_revision_au", "UPDATE", "scripts", "NEW.id"),
+          snapshotTrigger("parameters_revision_ai", "INSERT", "parameters", "NEW.script_id"),
+          snapshotTrigger("parameters_revision_au", "UPDATE", "parameters", "NEW.script_id"),
+          snapshotTrigger("parameters_revision_ad", "DELETE", "parameters", "OLD.script_id"),
+          snapshotTrigger("script_tags_revision_ai", "INSERT", "script_tags", "NEW.script_id"),
+          snapshotTrigger("script_tags_revision_ad", "DELETE", "script_tags", "OLD.script_id"),
+        ].join("\n")
+      );
+
+      // Existing articles start their history from their current content
+      db.exec(`
+        INSERT INTO script_revisions (script_id, revision, snapshot, actor)
+        SELECT script_id, 1, snapshot, 'system' FROM script_snapshots;
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: "review intervals",
+    up: (db) =>
+      db.exec(`
+        -- Days after the last review an article is due again. Per-state defaults apply to every
+        -- category; a category row can shorten them.
+        CREATE TABLE review_intervals (
+          scope TEXT NOT NULL CHECK(scope IN ('state', 'category')),
+          key TEXT NOT NULL,
+          days INTEGER NOT NULL CHECK(days > 0),
+          PRIMARY KEY (scope, key)
+        );
+
+        INSERT INTO review_intervals (scope, key, days) VALUES
+          ('state', 'draft', 30),
+          ('state', 'approved', 90),
+          ('state', 'published', 180);
+      `),
+  },
+  {
+    version: 13,
+    name: "reader feedback",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE feedback (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          outcome TEXT NOT NULL CHECK(outcome IN ('solved', 'partial', 'not_helpful')),
+          comment TEXT,
+          reader TEXT,
+          -- Anything short of "solved" or with a comment is a flag for the article's owners
+          status TEXT NOT NULL CHECK(status IN ('none', 'open', 'resolved')),
+          resolved_by TEXT,
+          resolved_at TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+
+        CREATE INDEX idx_feedback_script ON feedback(script_id, status);
+      `),
+  },
+  {
+    version: 14,
+    name: "reuse events",
+    up: (db) =>
+      db.exec(`
+        -- KCS reuse: an article was linked to an incident or ticket while working it
+        CREATE TABLE reuse_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          incident_ref TEXT NOT NULL,
+          user_name TEXT NOT NULL,
+          outcome TEXT NOT NULL CHECK(outcome IN ('resolved', 'partially_resolved', 'not_resolved')),
+          notes TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          UNIQUE (script_id, incident_ref)
+        );
+
+        CREATE INDEX idx_reuse_events_script ON reuse_events(script_id, created_at);
+      `),
+  },
+  {
+    version: 15,
+    name: "local accounts",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          display_name TEXT NOT NULL,
+          password_hash TEXT NOT NULL,
+          role TEXT NOT NULL DEFAULT 'viewer' CHECK(role IN ('viewer','contributor','coach','publisher')),
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+        );
+
+        -- Only a hash of the cookie token is kept
+        CREATE TABLE sessions (
+          token_hash TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+          expires_at TEXT NOT NULL
+        );
+
+        CREATE INDEX idx_sessions_user ON sessions(user_id);
+
+        -- Names stay as they were written; these point at the account behind them, when there is one
+        ALTER TABLE contributors ADD COLUMN user_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+        ALTER TABLE scripts ADD COLUMN author_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+        CREATE INDEX idx_contributors_user ON contributors(user_id);
+      `),
+  },
+  {
+    version: 16,
+    name: "visibility groups",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE groups (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          description TEXT
+        );
+
+        CREATE TABLE user_groups (
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          group_id INTEGER NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+          PRIMARY KEY (user_id, group_id)
+        );
+
+        -- A category or article with rows here is only visible to members of those groups
+        CREATE TABLE category_visibility (
+          category_id INTEGER NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+          group_id INTEGER NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+          PRIMARY KEY (category_id, group_id)
+        );
+
+        CREATE TABLE script_visibility (
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          group_id INTEGER NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+          PRIMARY KEY (script_id, group_id)
+        );
+
+        CREATE INDEX idx_user_groups_group ON user_groups(group_id);
+      `),
+  },
+  {
+    version: 17,
+    name: "supersession",
+    up: (db) =>
+      db.exec(`
+        -- Set on retired articles only: the article readers should use instead, and why
+        ALTER TABLE scripts ADD COLUMN superseded_by INTEGER REFERENCES scripts(id) ON DELETE SET NULL;
+        ALTER TABLE scripts ADD COLUMN superseded_reason TEXT;
+
+        CREATE INDEX idx_scripts_superseded_by ON scripts(superseded_by);
+      `),
+  },
+  {
+    version: 18,
+    name: "comments",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE comments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          -- NULL for the first comment of a thread, which also carries the thread's resolved state
+          parent_id INTEGER REFERENCES comments(id) ON DELETE CASCADE,
+          body TEXT NOT NULL,
+          author_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          author TEXT NOT NULL,
+          resolved_by TEXT,
+          resolved_at TEXT,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+        );
+
+        CREATE INDEX idx_comments_script ON comments(script_id, parent_id, resolved_at);
+        CREATE INDEX idx_comments_parent ON comments(parent_id);
+      `),
+  },
+  {
+    version: 19,
+    name: "git history is not review",
+    up: (db) =>
+      db.exec(`
+        -- The git sync used to count an article's last commit as a review
+        UPDATE scripts SET last_reviewed_at = NULL
+        WHERE id NOT IN (SELECT script_id FROM contributors WHERE contribution_type = 'reviewer');
+      `),
+  },
+  {
+    version: 20,
+    name: "link accounts by username",
+    up: (db) =>
+      db.exec(`
+        -- Authors used to be linked by display name too, which users can set to anyone's name
+        UPDATE scripts SET author_id = NULL
+        WHERE author_id IS NOT NULL AND author_id NOT IN (SELECT id FROM users WHERE username = scripts.author);
+      `),
+  },
+  {
+    version: 21,
+    name: "revisions go with their article",
+    disableForeignKeys: true,
+    up: (db) => {
+      db.exec(`
+        DROP TRIGGER script_revisions_bu;
+        DROP TRIGGER script_revisions_bd;
+        DROP TRIGGER scripts_revision_ai;
+        DROP TRIGGER scripts_revision_au;
+        DROP TRIGGER parameters_revision_ai;
+        DROP TRIGGER parameters_revision_au;
+        DROP TRIGGER parameters_revision_ad;
+        DROP TRIGGER script_tags_revision_ai;
+        DROP TRIGGER script_tags_revision_ad;
+
+        -- Deleting an article deletes its history instead of failing on it
+        CREATE TABLE script_revisions_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          script_id INTEGER NOT NULL REFERENCES scripts(id) ON DELETE CASCADE,
+          revision INTEGER NOT NULL,
+          snapshot TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          batch TEXT,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+          UNIQUE (script_id, revision)
+        );
+        INSERT INTO script_revisions_new SELECT id, script_id, revision, snapshot, actor, batch, created_at FROM script_revisions;
+        DROP TABLE script_revisions;
+        ALTER TABLE script_revisions_new RENAME TO script_revisions;
+
+        CREATE TRIGGER script_revisions_bu BEFORE UPDATE ON script_revisions
+        WHEN OLD.batch IS NULL OR OLD.batch IS NOT (SELECT batch FROM revision_context)
+        BEGIN
+          SELECT RAISE(ABORT, 'script revisions are immutable');
+        END;
+
+        -- Still append-only while the article exists
+        CREATE TRIGGER script_revisions_bd BEFORE DELETE ON script_revisions
+        WHEN EXISTS (SELECT 1 FROM scripts WHERE id = OLD.script_id)
+        BEGIN
+          SELECT RAISE(ABORT, 'script revisions are immutable');
+        END;
+      `);
+
+      // Counters and bookkeeping (view_count, version, ...) no longer rebuild the snapshot, and
+      // child rows removed along with their article don't try to record it
+      const live = (scriptId: string) => `EXISTS (SELECT 1 FROM scripts WHERE id = ${scriptId})`;
+      db.exec(
+        [
+          snapshotTrigger("scripts_revision_ai", "INSERT", "scripts", "NEW.id"),
+          snapshotTrigger("scripts_revision_au", `UPDATE OF ${SNAPSHOT_COLUMNS.join(", ")}`, "scripts", "NEW.id"),
+          snapshotTrigger("parameters_revision_ai", "INSERT", "parameters", "NEW.script_id"),
+          snapshotTrigger("parameters_revision_au", "UPDATE", "parameters", "NEW.script_id"),
+          snapshotTrigger("parameters_revision_ad", "DELETE", "parameters", "OLD.script_id", live("OLD.script_id")),
+          snapshotTrigger("script_tags_revision_ai", "INSERT", "script_tags", "NEW.script_id"),
+          snapshotTrigger("script_tags_revision_ad", "DELETE", "script_tags", "OLD.script_id", live("OLD.script_id")),
+        ].join("\n")
+      );
+    },
+  },
+];
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma("user_version", { simple: true }) as number;
+}
+
+/** Applies every pending migration, each in its own transaction. Returns the resulting version. */
+export function migrate(db: Database.Database): number {
+  const current = getSchemaVersion(db);
+  const pending = migrations
+    .filter((m) => m.version > current)
+    .sort((a, b) => a.version - b.version);
+
+  for (const m of pending) {
+    if (m.disableForeignKeys) db.pragma("foreign_keys = OFF");
+    try {
+      db.transaction(() => {
+        m.up(db);
+        if (m.disableForeignKeys) {
+          const violations = db.pragma("foreign_key_check") as unknown[];
+          if (violations.length > 0) {
+            throw new Error(`Migration ${m.version} (${m.name}) left ${violations.length} foreign key violation(s)`);
+          }
+        }
+        db.pragma(`user_version = ${m.version}`);
+      })();
+    } finally {
+      if (m.disableForeignKeys) db.pragma("foreign_keys = ON");
+    }
+  }
+  return getSchemaVersion(db);
+}
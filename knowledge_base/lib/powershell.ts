@@ -0,0 +1,433 @@
+// Lightweight PowerShell source reader: comment-based help and the script-level param() block.
+// It is not a full parser — just enough tokenizing (strings, comments, brackets) to read the
+// declarations the way the scripts in this repo write them.
+
+export interface ParsedParameter {
+  name: string;
+  type: string | null;
+  description: string | null;
+  isRequired: boolean;
+  defaultValue: string | null;
+  validateSet: string[] | null;
+  validateRange: { min: string; max: string } | null;
+  validatePattern: string | null;
+  parameterSets: string[];
+  aliases: string[];
+  position: number | null;
+  valueFromPipeline: boolean;
+  valueFromPipelineByPropertyName: boolean;
+  attributes: string[];
+}
+
+export interface ParsedAttribute {
+  name: string;
+  positional: string[];
+  named: Record<string, string>;
+}
+
+export interface ParsedExample {
+  command: string;
+  explanation: string | null;
+}
+
+export interface ParsedHelp {
+  synopsis: string | null;
+  description: string | null;
+  parameters: Record<string, string>;
+  examples: ParsedExample[];
+  notes: string | null;
+}
+
+export interface ParsedDependencies {
+  /** Modules from `#Requires -Modules` */
+  requiredModules: string[];
+  /** Modules loaded with `Import-Module` */
+  importedModules: string[];
+  /** Script names run via `& ...\X.ps1`, `. ...\X.ps1` or `.\X.ps1` */
+  invokedScripts: string[];
+  /** Verb-Noun commands used in code; the ingester resolves the ones that are sibling scripts */
+  commands: string[];
+  /** Script names mentioned anywhere in code, including strings such as follow-up hints */
+  referencedScripts: string[];
+}
+
+export interface ParsedScript extends ParsedHelp {
+  paramBlock: ParsedParameter[];
+  supportsWhatIf: boolean;
+  supportsCsvExport: boolean;
+  author: string | null;
+  dependencies: ParsedDependencies;
+}
+
+// --- Tokenizing helpers ---
+
+export function skipString(text: string, i: number): number {
+  // Here-strings: @" ... "@ / @' ... '@ (terminator must start a line)
+  if (text[i] === "@" && (text[i + 1] === '"' || text[i + 1] === "'")) {
+    const quote = text[i + 1];
+    const end = text.indexOf(`\n${quote}@`, i + 2);
+    return end === -1 ? text.length : end + 3;
+  }
+  const quote = text[i];
+  let j = i + 1;
+  while (j < text.length) {
+    const ch = text[j];
+    if (quote === '"' && ch === "`") {
+      j += 2;
+      continue;
+    }
+    if (ch === quote) {
+      if (text[j + 1] === quote) {
+        j += 2;
+        continue;
+      }
+      return j + 1;
+    }
+    j++;
+  }
+  return j;
+}
+
+export function isStringStart(text: string, i: number): boolean {
+  const ch = text[i];
+  if (ch === '"' || ch === "'") return true;
+  return ch === "@" && (text[i + 1] === '"' || text[i + 1] === "'") && /[\r\n]/.test(text[i + 2] ?? "");
+}
+
+/** Replaces block and line comments with spaces, keeping offsets and string contents intact. */
+export function stripComments(text: string): string {
+  let out = "";
+  let i = 0;
+  while (i < text.length) {
+    if (isStringStart(text, i)) {
+      const end = skipString(text, i);
+      out += text.slice(i, end);
+      i = end;
+    } else if (text.startsWith("<#", i)) {
+      const close = text.indexOf("#>", i + 2);
+      const end = close === -1 ? text.length : close + 2;
+      out += text.slice(i, end).replace(/[^\n]/g, " ");
+      i = end;
+    } else if (text[i] === "#") {
+      const nl = text.indexOf("\n", i);
+      const end = nl === -1 ? text.length : nl;
+      out += " ".repeat(end - i);
+      i = end;
+    } else {
+      out += text[i];
+      i++;
+    }
+  }
+  return out;
+}
+
+/** Blanks out string contents (keeping offsets), so matches on the result are known to be code. */
+export function blankStrings(text: string): string {
+  let out = "";
+  let i = 0;
+  while (i < text.length) {
+    if (isStringStart(text, i)) {
+      const end = skipString(text, i);
+      out += text.slice(i, end).replace(/[^\n]/g, " ");
+      i = end;
+    } else {
+      out += text[i];
+      i++;
+    }
+  }
+  return out;
+}
+
+const CLOSERS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+
+/** Index just past the bracket matching the one at `open`. Expects comments already stripped. */
+function matchingClose(text: string, open: number): number {
+  const stack: string[] = [];
+  let i = open;
+  while (i < text.length) {
+    if (isStringStart(text, i)) {
+      i = skipString(text, i);
+      continue;
+    }
+    const ch = text[i];
+    if (CLOSERS[ch]) {
+      stack.push(CLOSERS[ch]);
+    } else if (ch === stack[stack.length - 1]) {
+      stack.pop();
+      if (stack.length === 0) return i + 1;
+    }
+    i++;
+  }
+  return text.length;
+}
+
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  let i = 0;
+  while (i < text.length) {
+    if (isStringStart(text, i)) {
+      i = skipString(text, i);
+      continue;
+    }
+    const ch = text[i];
+    if (CLOSERS[ch]) {
+      i = matchingClose(text, i);
+      continue;
+    }
+    if (ch === separator) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+    i++;
+  }
+  parts.push(text.slice(start));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+export function unquote(value: string): string {
+  const v = value.trim();
+  if (v.length >= 2 && (v[0] === '"' || v[0] === "'") && skipString(v, 0) === v.length) {
+    return v.slice(1, -1);
+  }
+  return v;
+}
+
+// --- Comment-based help ---
+
+const HELP_KEYWORD = /^\s*\.(SYNOPSIS|DESCRIPTION|PARAMETER|EXAMPLE|INPUTS|OUTPUTS|NOTES|LINK|COMPONENT|ROLE|FUNCTIONALITY)\b[ \t]*(.*)$/i;
+
+function dedent(lines: string[]): string {
+  while (lines.length && !lines[0].trim()) lines.shift();
+  while (lines.length && !lines[lines.length - 1].trim()) lines.pop();
+  const indent = Math.min(
+    ...lines.filter((l) => l.trim()).map((l) => l.match(/^\s*/)![0].length)
+  );
+  return lines.map((l) => l.slice(Number.isFinite(indent) ? indent : 0).trimEnd()).join("\n");
+}
+
+/** Splits an .EXAMPLE body into the command (first paragraph) and the explanation that follows. */
+export function parseExample(text: string): ParsedExample {
+  const [first, ...rest] = text.split(/\n\s*\n/);
+  const command = first
+    .split("\n")
+    .map((l) => l.replace(/^\s*PS [^>]*>\s?/, "").trimEnd())
+    .join("\n")
+    .trim();
+  const explanation = rest.join("\n\n").trim();
+  return { command, explanation: explanation ? explanation.replace(/\s*\n\s*/g, " ") : null };
+}
+
+/** Parses the first comment-based help block (the one containing .SYNOPSIS). */
+export function parseHelp(source: string): ParsedHelp {
+  const help: ParsedHelp = { synopsis: null, description: null, parameters: {}, examples: [], notes: null };
+  const start = source.search(/^\s*\.SYNOPSIS\b/im);
+  if (start === -1) return help;
+  const end = source.indexOf("#>", start);
+  const body = source.slice(start, end === -1 ? source.length : end).replace(/\r\n/g, "\n");
+
+  let keyword: string | null = null;
+  let argument = "";
+  let buffer: string[] = [];
+  const flush = () => {
+    if (!keyword) return;
+    const text = dedent(buffer);
+    switch (keyword) {
+      case "SYNOPSIS":
+        help.synopsis = text.replace(/\s*\n\s*/g, " ") || null;
+        break;
+      case "DESCRIPTION":
+        help.description = text || null;
+        break;
+      case "PARAMETER":
+        if (argument) help.parameters[argument] = text.replace(/\s*\n\s*/g, " ");
+        break;
+      case "EXAMPLE":
+        if (text) help.examples.push(parseExample(text));
+        break;
+      case "NOTES":
+        help.notes = text || null;
+        break;
+    }
+  };
+
+  for (const line of body.split("\n")) {
+    const m = line.match(HELP_KEYWORD);
+    if (m) {
+      flush();
+      keyword = m[1].toUpperCase();
+      argument = m[2].trim();
+      buffer = [];
+    } else {
+      buffer.push(line);
+    }
+  }
+  flush();
+  return help;
+}
+
+// --- param() block ---
+
+/** Splits an attribute such as `Parameter(Mandatory=$true, Position=0)` into its arguments. */
+export function parseAttribute(text: string): ParsedAttribute {
+  const m = text.match(/^([\w.]+)\s*\(([\s\S]*)\)$/);
+  if (!m) return { name: text.trim(), positional: [], named: {} };
+  const attr: ParsedAttribute = { name: m[1], positional: [], named: {} };
+  for (const arg of splitTopLevel(m[2], ",")) {
+    const named = arg.match(/^([A-Za-z]\w*)\s*(?:=\s*([\s\S]+))?$/);
+    if (named && !/^\$/.test(arg)) {
+      // A bare named argument (e.g. `Mandatory`) means $true
+      attr.named[named[1].toLowerCase()] = named[2]?.trim() ?? "$true";
+    } else {
+      attr.positional.push(unquote(arg));
+    }
+  }
+  return attr;
+}
+
+function isTrue(value: string | undefined): boolean {
+  return value !== undefined && /^\$true$/i.test(value.trim());
+}
+
+function parseDeclaration(decl: string, help: Record<string, string>): ParsedParameter | null {
+  const attributes: string[] = [];
+  let i = 0;
+  while (i < decl.length) {
+    if (/\s/.test(decl[i])) {
+      i++;
+    } else if (decl[i] === "[") {
+      const end = matchingClose(decl, i);
+      attributes.push(decl.slice(i + 1, end - 1).trim());
+      i = end;
+    } else {
+      break;
+    }
+  }
+  const m = decl.slice(i).match(/^\$([A-Za-z_][\w]*)\s*(?:=\s*([\s\S]+))?$/);
+  if (!m) return null;
+  const name = m[1];
+
+  // The type constraint is the attribute without an argument list, e.g. [string] or [string[]]
+  const type = attributes.filter((a) => !/^[\w.]+\s*\(/.test(a)).pop() ?? null;
+  const parsed = attributes.filter((a) => /^[\w.]+\s*\(/.test(a)).map(parseAttribute);
+  const byName = (n: string) => parsed.filter((a) => a.name.toLowerCase() === n.toLowerCase());
+
+  // A parameter may declare one [Parameter()] per parameter set
+  const parameterAttrs = byName("Parameter");
+  const parameterSets = parameterAttrs
+    .map((a) => a.named.parametersetname)
+    .filter((v): v is string => v !== undefined)
+    .map(unquote);
+  const position = parameterAttrs
+    .map((a) => a.named.position)
+    .find((v) => v !== undefined && /^\d+$/.test(v.trim()));
+  const validateSet = byName("ValidateSet")[0];
+  const validateRange = byName("ValidateRange")[0];
+  const validatePattern = byName("ValidatePattern")[0];
+  const helpKey = Object.keys(help).find((k) => k.toLowerCase() === name.toLowerCase());
+
+  return {
+    name,
+    type,
+    description: helpKey ? help[helpKey] : null,
+    isRequired: parameterAttrs.some((a) => isTrue(a.named.mandatory)),
+    defaultValue: m[2] ? unquote(m[2]) : null,
+    validateSet: validateSet ? validateSet.positional : null,
+    validateRange:
+      validateRange && validateRange.positional.length >= 2
+        ? { min: validateRange.positional[0], max: validateRange.positional[1] }
+        : null,
+    validatePattern: validatePattern?.positional[0] ?? null,
+    parameterSets,
+    aliases: byName("Alias").flatMap((a) => a.positional),
+    position: position !== undefined ? Number(position) : null,
+    valueFromPipeline: parameterAttrs.some((a) => isTrue(a.named.valuefrompipeline)),
+    valueFromPipelineByPropertyName: parameterAttrs.some((a) =>
+      isTrue(a.named.valuefrompipelinebypropertyname)
+    ),
+    attributes,
+  };
+}
+
+/** Parses the script-level param() block. Function param blocks further down are ignored. */
+export function parseParamBlock(source: string, help: Record<string, string> = {}): ParsedParameter[] {
+  const code = stripComments(source);
+  const m = code.match(/\bparam\s*\(/i);
+  if (!m || m.index === undefined) return [];
+  if (/\bfunction\s+[\w-]+/i.test(code.slice(0, m.index))) return [];
+  const open = m.index + m[0].length - 1;
+  const close = matchingClose(code, open);
+  return splitTopLevel(code.slice(open + 1, close - 1), ",")
+    .map((decl) => parseDeclaration(decl, help))
+    .filter((p): p is ParsedParameter => p !== null);
+}
+
+// --- Dependencies ---
+
+const SCRIPT_FILE = /([A-Za-z]+-[\w-]+)\.ps1\b/g;
+
+function uniqueSorted(values: string[]): string[] {
+  const seen = new Map<string, string>();
+  for (const v of values) if (!seen.has(v.toLowerCase())) seen.set(v.toLowerCase(), v);
+  return [...seen.values()].sort((a, b) => a.localeCompare(b));
+}
+
+/** `#Requires -Modules A, B` or the hashtable form `@{ ModuleName = 'A'; ModuleVersion = '1.0' }`. */
+function parseRequiresModules(source: string): string[] {
+  const modules: string[] = [];
+  for (const m of source.matchAll(/^#Requires\s+-Modules?\s+(.+)$/gim)) {
+    const spec = m[1];
+    modules.push(...[...spec.matchAll(/ModuleName\s*=\s*(['"]?)([\w.-]+)\1/gi)].map((n) => n[2]));
+    const plain = spec.replace(/@\{[^}]*\}/g, "");
+    modules.push(...plain.split(",").map((part) => unquote(part.trim())).filter(Boolean));
+  }
+  return modules;
+}
+
+export function parseDependencies(source: string): ParsedDependencies {
+  const code = stripComments(source);
+  // Same offsets as `code`, but with strings blanked: a match here can't be inside a string
+  const bare = blankStrings(code);
+
+  const importedModules: string[] = [];
+  for (const m of bare.matchAll(/\bImport-Module\b/gi)) {
+    const arg = code.slice(m.index! + m[0].length).match(/^\s+(?:-Name\s+)?(['"]?)([\w.-]+)\1/i);
+    if (arg && !arg[2].startsWith("-")) importedModules.push(arg[2]);
+  }
+
+  const invokedScripts: string[] = [];
+  // Call/dot-source operators followed by a (possibly quoted) path ending in .ps1
+  for (const m of bare.matchAll(/(?:^|[\s;|({])[&.][ \t]+/gm)) {
+    const target = code.slice(m.index! + m[0].length).match(/^(['"]?)[^\s'"]*?([A-Za-z]+-[\w-]+)\.ps1\b/);
+    if (target) invokedScripts.push(target[2]);
+  }
+  // Direct relative invocation at the start of a statement: .\X.ps1 / ./X.ps1
+  for (const m of bare.matchAll(/(?:^|[;|{])\s*\.{1,2}[\\/](?:[\w.-]+[\\/])*([A-Za-z]+-[\w-]+)\.ps1\b/gm)) {
+    invokedScripts.push(m[1]);
+  }
+
+  const commands = [...bare.matchAll(/(?<![\w$.\\/-])([A-Za-z]+-[A-Za-z][\w]*)(?![\w.-])/g)].map((m) => m[1]);
+  const referencedScripts = [...code.matchAll(SCRIPT_FILE)].map((m) => m[1]);
+
+  return {
+    requiredModules: uniqueSorted(parseRequiresModules(source)),
+    importedModules: uniqueSorted(importedModules),
+    invokedScripts: uniqueSorted(invokedScripts),
+    commands: uniqueSorted(commands),
+    referencedScripts: uniqueSorted(referencedScripts),
+  };
+}
+
+export function parseScript(source: string): ParsedScript {
+  const help = parseHelp(source);
+  const code = stripComments(source);
+  const author = help.notes?.match(/^\s*Author:\s*(.+)$/im)?.[1].trim() ?? null;
+  return {
+    ...help,
+    paramBlock: parseParamBlock(source, help.parameters),
+    supportsWhatIf: /SupportsShouldProcess\s*(?:=\s*\$true)?\s*[,)]/i.test(code),
+    supportsCsvExport: /\bExport-Csv\b/i.test(code),
+    author,
+    dependencies: parseDependencies(source),
+  };
+}
@@ -0,0 +1,90 @@
+import { getDb, REUSE_WINDOW_DAYS } from "./db";
+
+// KCS reuse tracking. A reuse event links an article to the incident or ticket it was used on;
+// linking the same article to the same incident again updates the outcome instead of double counting.
+
+export type ReuseOutcome = "resolved" | "partially_resolved" | "not_resolved";
+
+export const REUSE_OUTCOMES: ReuseOutcome[] = ["resolved", "partially_resolved", "not_resolved"];
+
+export interface ReuseEvent {
+  id: number;
+  script_id: number;
+  incident_ref: string;
+  user_name: string;
+  outcome: ReuseOutcome;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface ReuseCounts {
+  total: number;
+  resolved: number;
+  recent: number;
+}
+
+export class ReuseError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "ReuseError";
+  }
+}
+
+export function isReuseOutcome(value: unknown): value is ReuseOutcome {
+  return typeof value === "string" && (REUSE_OUTCOMES as string[]).includes(value);
+}
+
+/** Returns the event and whether it was newly created (false when an existing link was updated). */
+export function recordReuse(
+  scriptId: number,
+  incidentRef: string,
+  userName: string,
+  outcome: ReuseOutcome,
+  notes: string | null
+): { event: ReuseEvent; created: boolean } {
+  const db = getDb();
+  const exists = db.prepare(`SELECT 1 FROM scripts WHERE id = ?`).get(scriptId);
+  if (!exists) throw new ReuseError("Not found", 404);
+
+  const existing = db
+    .prepare(`SELECT id FROM reuse_events WHERE script_id = ? AND incident_ref = ?`)
+    .get(scriptId, incidentRef) as { id: number } | undefined;
+  if (existing) {
+    db.prepare(`UPDATE reuse_events SET user_name = ?, outcome = ?, notes = COALESCE(?, notes) WHERE id = ?`).run(
+      userName,
+      outcome,
+      notes,
+      existing.id
+    );
+  }
+  const id = existing
+    ? existing.id
+    : db
+        .prepare(`INSERT INTO reuse_events (script_id, incident_ref, user_name, outcome, notes) VALUES (?, ?, ?, ?, ?)`)
+        .run(scriptId, incidentRef, userName, outcome, notes).lastInsertRowid;
+
+  const event = db.prepare(`SELECT * FROM reuse_events WHERE id = ?`).get(id) as ReuseEvent;
+  return { event, created: !existing };
+}
+
+export function getReuseCounts(scriptId: number): ReuseCounts {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT COUNT(*) AS total,
+         COUNT(*) FILTER (WHERE outcome = 'resolved') AS resolved,
+         COUNT(*) FILTER (WHERE created_at >= datetime('now', ?)) AS recent
+       FROM reuse_events WHERE script_id = ?`
+    )
+    .get(`-${REUSE_WINDOW_DAYS} days`, scriptId) as ReuseCounts;
+}
+
+export function getReuseEvents(scriptId: number, limit = 20): ReuseEvent[] {
+  const db = getDb();
+  return db
+    .prepare(`SELECT * FROM reuse_events WHERE script_id = ? ORDER BY created_at DESC, id DESC LIMIT ?`)
+    .all(scriptId, limit) as ReuseEvent[];
+}
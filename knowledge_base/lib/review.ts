@@ -0,0 +1,105 @@
+import type { User } from "./auth";
+import { recordContribution } from "./contributors";
+import { getDb, getScriptById, KcsState, Script, Viewer, visibleScripts } from "./db";
+import { withRevisionContext } from "./revisions";
+
+// KCS review queue: articles whose last review is older than the interval for their state or
+// category. Retired articles are never due.
+
+export interface ReviewInterval {
+  scope: "state" | "category";
+  key: string;
+  days: number;
+}
+
+export interface ReviewItem {
+  id: number;
+  name: string;
+  synopsis: string | null;
+  category_name: string;
+  category_slug: string;
+  kcs_state: KcsState;
+  confidence: number;
+  view_count: number;
+  last_reviewed_at: string | null;
+  interval_days: number;
+  days_since_review: number;
+  /** (views + 1) × days since review / interval, so popular and long-overdue articles come first */
+  priority: number;
+}
+
+export class ReviewError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "ReviewError";
+  }
+}
+
+export function getReviewIntervals(): ReviewInterval[] {
+  const db = getDb();
+  return db.prepare(`SELECT scope, key, days FROM review_intervals ORDER BY scope DESC, key`).all() as ReviewInterval[];
+}
+
+export function setReviewInterval(scope: ReviewInterval["scope"], key: string, days: number | null): void {
+  const db = getDb();
+  if (days === null) {
+    db.prepare(`DELETE FROM review_intervals WHERE scope = ? AND key = ?`).run(scope, key);
+  } else {
+    db.prepare(
+      `INSERT INTO review_intervals (scope, key, days) VALUES (?, ?, ?)
+       ON CONFLICT(scope, key) DO UPDATE SET days = excluded.days`
+    ).run(scope, key, days);
+  }
+}
+
+/**
+ * Articles past their review interval. When both a state and a category interval apply, the
+ * shorter one wins. Articles never reviewed count from their creation date. Only articles `viewer`
+ * may see are listed.
+ */
+export function getReviewQueue(viewer: Viewer, includeNotDue = false): ReviewItem[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `WITH due AS (
+         SELECT s.id, s.name, s.synopsis, c.name AS category_name, c.slug AS category_slug,
+           s.kcs_state, s.confidence, s.view_count, s.last_reviewed_at,
+           MIN(
+             COALESCE((SELECT days FROM review_intervals WHERE scope = 'state' AND key = s.kcs_state), 1e9),
+             COALESCE((SELECT days FROM review_intervals WHERE scope = 'category' AND key = c.slug), 1e9)
+           ) AS interval_days,
+           julianday('now') - julianday(COALESCE(s.last_reviewed_at, s.created_at)) AS days_since_review
+         FROM scripts s JOIN categories c ON s.category_id = c.id
+         WHERE s.kcs_state != 'retired' AND ${visibleScripts(viewer)}
+       )
+       SELECT *, CAST(days_since_review AS INTEGER) AS days_since_review,
+         ROUND((view_count + 1) * days_since_review / interval_days, 2) AS priority
+       FROM due
+       WHERE interval_days < 1e9 AND (? OR days_since_review >= interval_days)
+       ORDER BY priority DESC, name`
+    )
+    .all(includeNotDue ? 1 : 0) as ReviewItem[];
+}
+
+/** Records a review: resets the review clock, optionally adjusts confidence and credits the reviewer. */
+export function markReviewed(scriptId: number, reviewer: User, confidence?: number): Script {
+  const db = getDb();
+  const script = getScriptById(scriptId);
+  if (!script) throw new ReviewError("Not found", 404);
+  if (script.kcs_state === "retired") throw new ReviewError("Retired articles are not reviewed", 422);
+
+  withRevisionContext(db, reviewer.display_name, () => {
+    db.prepare(
+      `UPDATE scripts SET last_reviewed_at = strftime('%Y-%m-%dT%H:%M:%SZ', 'now'),
+         confidence = COALESCE(?, confidence),
+         version = version + (CASE WHEN ? IS NOT NULL AND ? != confidence THEN 1 ELSE 0 END)
+       WHERE id = ?`
+    ).run(confidence ?? null, confidence ?? null, confidence ?? null, scriptId);
+    recordContribution(db, scriptId, reviewer, "reviewer");
+  });
+
+  return getScriptById(scriptId)!;
+}
@@ -0,0 +1,114 @@
+import Database from "better-sqlite3";
+import { randomUUID } from "crypto";
+import { getDb } from "./db";
+
+// Revisions are written by SQLite triggers (migration 11) on every change to an article, its
+// parameters or tags, so even direct database writes are captured. App code names the actor and
+// groups the statements of one logical change into a single revision with withRevisionContext().
+
+export interface SnapshotParameter {
+  name: string;
+  description: string | null;
+  type: string | null;
+  is_required: number;
+  default_value: string | null;
+}
+
+export interface ScriptSnapshot {
+  name: string;
+  category: string;
+  subcategory: string | null;
+  file_path: string;
+  synopsis: string | null;
+  description: string | null;
+  kcs_state: string;
+  environment: string | null;
+  resolution: string | null;
+  cause: string | null;
+  confidence: number;
+  author: string | null;
+  supports_whatif: number;
+  supports_csv_export: number;
+  tags: string[];
+  parameters: SnapshotParameter[];
+}
+
+export interface Revision {
+  id: number;
+  script_id: number;
+  revision: number;
+  snapshot: ScriptSnapshot;
+  actor: string;
+  created_at: string;
+}
+
+type RevisionRow = Omit<Revision, "snapshot"> & { snapshot: string };
+
+function toRevision(row: RevisionRow): Revision {
+  return { ...row, snapshot: JSON.parse(row.snapshot) };
+}
+
+export interface FieldChange {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+/** Runs `fn` in a transaction whose writes are attributed to `actor` and merged into one revision per article. */
+export function withRevisionContext<T>(db: Database.Database, actor: string, fn: () => T): T {
+  return db.transaction(() => {
+    db.prepare(`INSERT OR REPLACE INTO revision_context (id, actor, batch) VALUES (1, ?, ?)`).run(actor, randomUUID());
+    try {
+      return fn();
+    } finally {
+      db.prepare(`DELETE FROM revision_context`).run();
+    }
+  })();
+}
+
+export function getRevisions(scriptId: number): Revision[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT id, script_id, revision, snapshot, actor, created_at
+       FROM script_revisions WHERE script_id = ? ORDER BY revision DESC`
+    )
+    .all(scriptId) as RevisionRow[];
+  return rows.map(toRevision);
+}
+
+export function getRevision(scriptId: number, revision: number): Revision | undefined {
+  const db = getDb();
+  const row = db
+    .prepare(
+      `SELECT id, script_id, revision, snapshot, actor, created_at
+       FROM script_revisions WHERE script_id = ? AND revision = ?`
+    )
+    .get(scriptId, revision) as RevisionRow | undefined;
+  return row ? toRevision(row) : undefined;
+}
+
+/** Flattens a snapshot to display strings, with one entry per parameter attribute. */
+function flatten(snapshot: ScriptSnapshot): Map<string, string | null> {
+  const fields = new Map<string, string | null>();
+  for (const [key, value] of Object.entries(snapshot)) {
+    if (key === "tags") fields.set("tags", (value as string[]).join(", ") || null);
+    else if (key !== "parameters") fields.set(key, value === null ? null : String(value));
+  }
+  for (const p of snapshot.parameters) {
+    for (const [key, value] of Object.entries(p)) {
+      if (key !== "name") fields.set(`parameters.${p.name}.${key}`, value === null ? null : String(value));
+    }
+  }
+  return fields;
+}
+
+/** Fields that differ between two snapshots, in snapshot order. */
+export function diffSnapshots(before: ScriptSnapshot, after: ScriptSnapshot): FieldChange[] {
+  const a = flatten(before);
+  const b = flatten(after);
+  const fields = [...new Set([...a.keys(), ...b.keys()])];
+  return fields
+    .map((field) => ({ field, before: a.get(field) ?? null, after: b.get(field) ?? null }))
+    .filter((c) => c.before !== c.after);
+}
@@ -0,0 +1,37 @@
+import path from "path";
+import fs from "fs";
+
+// The KB app runs from knowledge_base/, one level below the script repository
+export const REPO_ROOT = path.resolve(process.env.KB_REPO_ROOT ?? path.join(process.cwd(), ".."));
+
+export class SourceAccessError extends Error {}
+
+function isInside(root: string, target: string): boolean {
+  const rel = path.relative(root, target);
+  return rel !== "" && !rel.startsWith("..") && !path.isAbsolute(rel);
+}
+
+/**
+ * Resolves a repo-relative `file_path` to an absolute path inside REPO_ROOT.
+ * Throws SourceAccessError for anything that would escape the repository, including via symlinks.
+ */
+export function resolveRepoPath(filePath: string): string {
+  if (!filePath || filePath.includes("\0") || path.isAbsolute(filePath)) {
+    throw new SourceAccessError(`Refusing to read "${filePath}": not a repository-relative path`);
+  }
+  const resolved = path.resolve(REPO_ROOT, filePath);
+  if (!isInside(REPO_ROOT, resolved)) {
+    throw new SourceAccessError(`Refusing to read "${filePath}": outside the repository`);
+  }
+  if (fs.existsSync(resolved) && !isInside(fs.realpathSync(REPO_ROOT), fs.realpathSync(resolved))) {
+    throw new SourceAccessError(`Refusing to read "${filePath}": links outside the repository`);
+  }
+  return resolved;
+}
+
+/** Returns the file contents, or null when the file no longer exists. */
+export function readRepoFile(filePath: string): string | null {
+  const resolved = resolveRepoPath(filePath);
+  if (!fs.existsSync(resolved) || !fs.statSync(resolved).isFile()) return null;
+  return fs.readFileSync(resolved, "utf8");
+}
@@ -0,0 +1,219 @@
+import Database from "better-sqlite3";
+import { getDb } from "./db";
+
+// Visibility rules: a category or article linked to one or more groups is only visible to members
+// of those groups (and to publishers, who manage the rules). Everything else is public. The rules
+// are enforced in SQL by visibleCategories() and visibleScripts() in lib/db.ts.
+
+export interface Group {
+  id: number;
+  name: string;
+  description: string | null;
+  member_count: number;
+}
+
+export interface GroupMember {
+  id: number;
+  username: string;
+  display_name: string;
+}
+
+export interface VisibilityRule {
+  id: number;
+  name: string;
+  /** Category slug, or the category of a restricted article */
+  slug: string;
+  group_ids: number[];
+}
+
+type RuleRow = Omit<VisibilityRule, "group_ids"> & { group_ids: string | null };
+
+function toRule(row: RuleRow): VisibilityRule {
+  return { ...row, group_ids: row.group_ids ? row.group_ids.split(",").map(Number) : [] };
+}
+
+export class VisibilityError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "VisibilityError";
+  }
+}
+
+// Groups that restrict a fresh install out of the box: [group, description, category slug]
+const DEFAULT_GROUPS: [string, string, string][] = [
+  ["security-admins", "Tenant administrators allowed to see privileged security operations", "03-security-compliance"],
+];
+
+/**
+ * Creates the default groups and their category rules. Only runs for groups that don't exist yet,
+ * so rules a publisher has since changed or removed aren't put back on every sync.
+ */
+export function ensureDefaultGroups(db: Database.Database): void {
+  for (const [name, description, slug] of DEFAULT_GROUPS) {
+    const created = db.prepare(`INSERT OR IGNORE INTO groups (name, description) VALUES (?, ?)`).run(name, description);
+    if (created.changes === 0) continue;
+    db.prepare(
+      `INSERT OR IGNORE INTO category_visibility (category_id, group_id)
+       SELECT id, ? FROM categories WHERE slug = ?`
+    ).run(created.lastInsertRowid, slug);
+  }
+}
+
+export function getGroups(): Group[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT g.id, g.name, g.description, COUNT(ug.user_id) AS member_count
+       FROM groups g LEFT JOIN user_groups ug ON ug.group_id = g.id
+       GROUP BY g.id ORDER BY g.name`
+    )
+    .all() as Group[];
+}
+
+export function getGroupMembers(groupId: number): GroupMember[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT u.id, u.username, u.display_name
+       FROM user_groups ug JOIN users u ON u.id = ug.user_id
+       WHERE ug.group_id = ? ORDER BY u.display_name`
+    )
+    .all(groupId) as GroupMember[];
+}
+
+export function createGroup(name: string, description: string): Group {
+  const db = getDb();
+  if (!name.trim()) throw new VisibilityError("A group name is required", 400);
+  if (db.prepare(`SELECT 1 FROM groups WHERE name = ?`).get(name.trim())) {
+    throw new VisibilityError(`The group ${name.trim()} already exists`, 409);
+  }
+  const result = db
+    .prepare(`INSERT INTO groups (name, description) VALUES (?, ?)`)
+    .run(name.trim(), description.trim() || null);
+  return getGroups().find((g) => g.id === Number(result.lastInsertRowid))!;
+}
+
+/**
+ * Deletes a group that no longer restricts anything. Its rules would go with it and could leave the
+ * content public, so they have to be changed first.
+ */
+export function deleteGroup(groupId: number): void {
+  const db = getDb();
+  const rules = db
+    .prepare(
+      `SELECT (SELECT COUNT(*) FROM category_visibility WHERE group_id = @id) AS categories,
+         (SELECT COUNT(*) FROM script_visibility WHERE group_id = @id) AS articles`
+    )
+    .get({ id: groupId }) as { categories: number; articles: number };
+  if (rules.categories + rules.articles > 0) {
+    throw new VisibilityError(
+      `The group still restricts ${rules.categories} categor${rules.categories === 1 ? "y" : "ies"} and ` +
+        `${rules.articles} article${rules.articles === 1 ? "" : "s"}; remove it from their rules first`,
+      409
+    );
+  }
+  const result = db.prepare(`DELETE FROM groups WHERE id = ?`).run(groupId);
+  if (result.changes === 0) throw new VisibilityError("Not found", 404);
+}
+
+function assertGroups(db: Database.Database, groupIds: number[]): void {
+  const found = db
+    .prepare(`SELECT COUNT(*) AS count FROM groups WHERE id IN (SELECT value FROM json_each(?))`)
+    .get(JSON.stringify(groupIds)) as { count: number };
+  if (found.count !== new Set(groupIds).size) throw new VisibilityError("Unknown group", 400);
+}
+
+export function setGroupMembers(groupId: number, userIds: number[]): GroupMember[] {
+  const db = getDb();
+  if (!db.prepare(`SELECT 1 FROM groups WHERE id = ?`).get(groupId)) throw new VisibilityError("Not found", 404);
+  const known = db
+    .prepare(`SELECT COUNT(*) AS count FROM users WHERE id IN (SELECT value FROM json_each(?))`)
+    .get(JSON.stringify(userIds)) as { count: number };
+  if (known.count !== new Set(userIds).size) throw new VisibilityError("Unknown user", 400);
+
+  db.transaction(() => {
+    db.prepare(`DELETE FROM user_groups WHERE group_id = ?`).run(groupId);
+    const insert = db.prepare(`INSERT OR IGNORE INTO user_groups (user_id, group_id) VALUES (?, ?)`);
+    for (const userId of userIds) insert.run(userId, groupId);
+  })();
+  return getGroupMembers(groupId);
+}
+
+/** Restricts a category to `groupIds`; an empty list makes it public again. */
+export function setCategoryGroups(categoryId: number, groupIds: number[]): void {
+  const db = getDb();
+  if (!db.prepare(`SELECT 1 FROM categories WHERE id = ?`).get(categoryId)) {
+    throw new VisibilityError("Category not found", 404);
+  }
+  assertGroups(db, groupIds);
+  db.transaction(() => {
+    db.prepare(`DELETE FROM category_visibility WHERE category_id = ?`).run(categoryId);
+    const insert = db.prepare(`INSERT INTO category_visibility (category_id, group_id) VALUES (?, ?)`);
+    for (const groupId of new Set(groupIds)) insert.run(categoryId, groupId);
+  })();
+}
+
+/** Restricts one article to `groupIds`, on top of any rule on its category. */
+export function setScriptGroups(scriptId: number, groupIds: number[]): void {
+  const db = getDb();
+  if (!db.prepare(`SELECT 1 FROM scripts WHERE id = ?`).get(scriptId)) {
+    throw new VisibilityError("Article not found", 404);
+  }
+  assertGroups(db, groupIds);
+  db.transaction(() => {
+    db.prepare(`DELETE FROM script_visibility WHERE script_id = ?`).run(scriptId);
+    const insert = db.prepare(`INSERT INTO script_visibility (script_id, group_id) VALUES (?, ?)`);
+    for (const groupId of new Set(groupIds)) insert.run(scriptId, groupId);
+  })();
+}
+
+/** Every category with the groups it is restricted to (empty for public categories). */
+export function getCategoryRules(): VisibilityRule[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT c.id, c.name, c.slug, GROUP_CONCAT(v.group_id) AS group_ids
+       FROM categories c LEFT JOIN category_visibility v ON v.category_id = c.id
+       GROUP BY c.id ORDER BY c.sort_order`
+    )
+    .all() as RuleRow[];
+  return rows.map(toRule);
+}
+
+/** Articles with a rule of their own. */
+export function getScriptRules(): VisibilityRule[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT s.id, s.name, c.slug, GROUP_CONCAT(v.group_id) AS group_ids
+       FROM script_visibility v
+       JOIN scripts s ON s.id = v.script_id
+       JOIN categories c ON c.id = s.category_id
+       GROUP BY s.id ORDER BY s.name`
+    )
+    .all() as RuleRow[];
+  return rows.map(toRule);
+}
+
+/** Groups restricting one article, through its category and directly, for the article page. */
+export function getScriptRestrictions(scriptId: number): { category: string[]; article: Pick<Group, "id" | "name">[] } {
+  const db = getDb();
+  const category = db
+    .prepare(
+      `SELECT g.name FROM scripts s
+       JOIN category_visibility v ON v.category_id = s.category_id
+       JOIN groups g ON g.id = v.group_id
+       WHERE s.id = ? ORDER BY g.name`
+    )
+    .all(scriptId) as { name: string }[];
+  const article = db
+    .prepare(
+      `SELECT g.id, g.name FROM script_visibility v JOIN groups g ON g.id = v.group_id
+       WHERE v.script_id = ? ORDER BY g.name`
+    )
+    .all(scriptId) as Pick<Group, "id" | "name">[];
+  return { category: category.map((g) => g.name), article };
+}
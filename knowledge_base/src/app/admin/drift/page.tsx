@@ -0,0 +1,145 @@
+import path from "path";
+import Link from "next/link";
+import { getDb } from "../../../../lib/db";
+import { computeDrift, ParameterDrift } from "../../../../lib/drift";
+import { requirePageRole } from "../../../../lib/guard";
+import { loadKcsMetadata } from "../../../../lib/ingest";
+import { REPO_ROOT } from "../../../../lib/source";
+
+// Always check against the repository as it is now
+export const dynamic = "force-dynamic";
+
+const changeLabels: Record<ParameterDrift["change"], string> = {
+  added: "added in source",
+  removed: "removed from source",
+  required_changed: "required changed",
+};
+
+function describeChange(p: ParameterDrift): string {
+  if (p.change !== "required_changed") return changeLabels[p.change];
+  return `${p.wasRequired ? "required" : "optional"} → ${p.isRequired ? "required" : "optional"}`;
+}
+
+export default async function DriftReportPage() {
+  await requirePageRole("coach", "/admin/drift");
+  const metadata = loadKcsMetadata(path.join(process.cwd(), "kcs-metadata.json"));
+  const report = computeDrift(getDb(), REPO_ROOT, metadata);
+
+  const stats = [
+    { label: "Missing Files", value: report.missingFiles.length },
+    { label: "Untracked Scripts", value: report.untrackedFiles.length },
+    { label: "Outdated Articles", value: report.scripts.length },
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Drift Report</h1>
+        <p className="text-muted">
+          Differences between knowledge base articles and the scripts in the repository.
+          Run <code className="font-mono text-sm">npm run seed</code> to bring source-derived fields up to date.
+        </p>
+        <p className="text-xs text-muted">
+          Checked {new Date(report.checkedAt).toLocaleString()} &middot;{" "}
+          <a href="/api/admin/drift" className="hover:text-foreground">
+            JSON
+          </a>
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {stats.map((s) => (
+          <div key={s.label} className="rounded-lg border border-border p-5">
+            <div className="text-2xl font-bold">{s.value}</div>
+            <div className="mt-1 text-sm text-muted">{s.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">Missing Files</h2>
+        {report.missingFiles.length === 0 ? (
+          <p className="text-sm text-muted">Every article points at an existing script.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border bg-surface">
+                  <th className="px-4 py-3 text-left font-medium">Article</th>
+                  <th className="px-4 py-3 text-left font-medium">File Path</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.missingFiles.map((m) => (
+                  <tr key={m.scriptId} className="border-b border-border last:border-0">
+                    <td className="px-4 py-3">
+                      <Link href={`/scripts/${m.scriptId}`} className="font-medium hover:underline">
+                        {m.name}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 font-mono text-xs text-muted">{m.filePath}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">Scripts Without an Article</h2>
+        {report.untrackedFiles.length === 0 ? (
+          <p className="text-sm text-muted">Every script in the repository has an article.</p>
+        ) : (
+          <ul className="rounded-lg border border-border">
+            {report.untrackedFiles.map((f) => (
+              <li key={f} className="border-b border-border px-4 py-3 font-mono text-xs last:border-0">
+                {f}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">Outdated Articles</h2>
+        {report.scripts.length === 0 ? (
+          <p className="text-sm text-muted">All parameters and synopses match the source.</p>
+        ) : (
+          <div className="space-y-3">
+            {report.scripts.map((s) => (
+              <div key={s.scriptId} className="rounded-lg border border-border p-5">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <Link href={`/scripts/${s.scriptId}`} className="font-semibold hover:underline">
+                    {s.name}
+                  </Link>
+                  <span className="font-mono text-xs text-muted">{s.filePath}</span>
+                </div>
+                {s.parameters.length > 0 && (
+                  <ul className="mt-3 space-y-1 text-sm">
+                    {s.parameters.map((p) => (
+                      <li key={p.name} className="flex items-center gap-2">
+                        <code className="font-mono text-xs">-{p.name}</code>
+                        <span className="rounded-full bg-badge-bg px-2 py-0.5 text-[10px] font-medium text-badge-text">
+                          {describeChange(p)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {s.synopsis && (
+                  <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                    <dt className="text-muted">KB synopsis</dt>
+                    <dd>{s.synopsis.kb || <span className="text-muted">(none)</span>}</dd>
+                    <dt className="text-muted">Source synopsis</dt>
+                    <dd>{s.synopsis.source || <span className="text-muted">(none)</span>}</dd>
+                  </dl>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
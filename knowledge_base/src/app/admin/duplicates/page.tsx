@@ -0,0 +1,99 @@
+import Link from "next/link";
+import { getDb, isScriptVisible } from "../../../../lib/db";
+import { DUPLICATE_THRESHOLD, getDuplicateClusters, visibleClusters } from "../../../../lib/duplicates";
+import { requirePageRole } from "../../../../lib/guard";
+
+// Always compare the articles as they are now
+export const dynamic = "force-dynamic";
+
+const kcsColors: Record<string, string> = {
+  draft: "#ca8a04",
+  approved: "#2563eb",
+  published: "#16a34a",
+  retired: "#9ca3af",
+};
+
+export default async function DuplicatesReportPage() {
+  const user = await requirePageRole("coach", "/admin/duplicates");
+  const clusters = visibleClusters(getDuplicateClusters(getDb()), (id) => isScriptVisible(id, user));
+
+  const stats = [
+    { label: "Clusters", value: clusters.length },
+    { label: "Articles Involved", value: clusters.reduce((n, c) => n + c.articles.length, 0) },
+    { label: "Likely Duplicate Pairs", value: clusters.reduce((n, c) => n + c.pairs.length, 0) },
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Duplicate Report</h1>
+        <p className="text-muted">
+          Live articles whose name, synopsis, tags and parameters overlap enough that they probably
+          cover the same problem. Merge them, or retire one and name the other as its replacement.
+        </p>
+        <p className="text-xs text-muted">
+          Pairs scoring {DUPLICATE_THRESHOLD} or more out of 100 &middot;{" "}
+          <a href="/api/admin/duplicates" className="hover:text-foreground">
+            JSON
+          </a>
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {stats.map((s) => (
+          <div key={s.label} className="rounded-lg border border-border p-5">
+            <div className="text-2xl font-bold">{s.value}</div>
+            <div className="mt-1 text-sm text-muted">{s.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">Clusters</h2>
+        {clusters.length === 0 ? (
+          <p className="text-sm text-muted">No near-duplicate articles found.</p>
+        ) : (
+          <div className="space-y-3">
+            {clusters.map((c) => {
+              const names = new Map(c.articles.map((a) => [a.id, a.name]));
+              return (
+                <div key={c.pairs[0].a} className="rounded-lg border border-border p-5">
+                  <div className="flex flex-wrap items-baseline justify-between gap-2">
+                    <span className="font-semibold">{c.articles.length} articles</span>
+                    <span className="font-mono text-xs text-muted">best match {c.score}</span>
+                  </div>
+                  <ul className="mt-3 space-y-1 text-sm">
+                    {c.articles.map((a) => (
+                      <li key={a.id} className="flex flex-wrap items-center gap-2">
+                        <Link href={`/scripts/${a.id}`} className="font-medium hover:underline">
+                          {a.name}
+                        </Link>
+                        <span
+                          className="rounded-full px-1.5 py-0.5 text-[10px] font-medium text-white"
+                          style={{ backgroundColor: kcsColors[a.kcs_state] || kcsColors.draft }}
+                        >
+                          {a.kcs_state}
+                        </span>
+                        <span className="text-xs text-muted">{a.category_name}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                    {c.pairs.map((p) => (
+                      <div key={`${p.a}:${p.b}`} className="contents">
+                        <dt className="font-mono text-muted">{p.score}</dt>
+                        <dd>
+                          {names.get(p.a)} ↔ {names.get(p.b)}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import Link from "next/link";
+import { getUsers, ROLE_LABELS } from "../../../../lib/auth";
+import { requirePageRole } from "../../../../lib/guard";
+import { CreateUserForm } from "../../../components/CreateUserForm";
+import { UserRoleSelect } from "../../../components/UserRoleSelect";
+
+export const dynamic = "force-dynamic";
+
+export default async function UsersPage() {
+  const me = await requirePageRole("publisher", "/admin/users");
+  const users = getUsers();
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Accounts</h1>
+        <p className="text-muted">
+          Viewers can rate articles, contributors edit them and link incidents, KCS coaches review,
+          approve and restore revisions, and publishers publish, retire and manage accounts. Group
+          membership and restricted content are managed under{" "}
+          <Link href="/admin/visibility" className="underline hover:text-foreground">
+            Visibility
+          </Link>
+          .
+        </p>
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">New Account</h2>
+        <CreateUserForm />
+      </section>
+
+      <div className="overflow-x-auto rounded-lg border border-border">
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-border bg-surface text-xs uppercase tracking-wider text-muted">
+            <tr>
+              <th className="px-4 py-3 font-medium">Name</th>
+              <th className="px-4 py-3 font-medium">Username</th>
+              <th className="px-4 py-3 font-medium">Role</th>
+              <th className="px-4 py-3 font-medium">Created</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {users.map((u) => (
+              <tr key={u.id}>
+                <td className="px-4 py-3">
+                  <Link href={`/contributors/${encodeURIComponent(u.display_name)}`} className="font-medium hover:underline">
+                    {u.display_name}
+                  </Link>
+                </td>
+                <td className="px-4 py-3 font-mono text-xs">{u.username}</td>
+                <td className="px-4 py-3">
+                  {u.id === me.id ? (
+                    <span className="text-xs">{ROLE_LABELS[u.role]}</span>
+                  ) : (
+                    <UserRoleSelect userId={u.id} role={u.role} />
+                  )}
+                </td>
+                <td className="px-4 py-3 text-xs text-muted">{new Date(u.created_at).toLocaleDateString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
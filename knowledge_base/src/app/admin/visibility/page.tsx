@@ -0,0 +1,149 @@
+import Link from "next/link";
+import { getUsers } from "../../../../lib/auth";
+import { requirePageRole } from "../../../../lib/guard";
+import { getCategoryRules, getGroupMembers, getGroups, getScriptRules } from "../../../../lib/visibility";
+import { CreateGroupForm } from "../../../components/CreateGroupForm";
+import { DeleteGroupButton } from "../../../components/DeleteGroupButton";
+import { GroupChecklist } from "../../../components/GroupChecklist";
+
+export const dynamic = "force-dynamic";
+
+export default async function VisibilityPage() {
+  await requirePageRole("publisher", "/admin/visibility");
+  const groups = getGroups();
+  const users = getUsers().map((u) => ({ id: u.id, label: u.display_name }));
+  const groupOptions = groups.map((g) => ({ id: g.id, label: g.name }));
+  const categories = getCategoryRules();
+  const articles = getScriptRules();
+
+  return (
+    <div className="space-y-10">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Visibility</h1>
+        <p className="text-muted">
+          A category or article restricted to groups is hidden from everyone else: it doesn&apos;t
+          appear in listings, search, counts or the RDF export, and its pages return 404. Publishers
+          always see everything. Articles can be restricted individually from their own page.
+        </p>
+      </div>
+
+      {/* Groups and their members */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">Groups</h2>
+        <CreateGroupForm />
+        {groups.length === 0 ? (
+          <p className="text-sm text-muted">No groups yet.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="w-full text-left text-sm">
+              <thead className="border-b border-border bg-surface text-xs uppercase tracking-wider text-muted">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Group</th>
+                  <th className="px-4 py-3 font-medium">Members</th>
+                  <th className="px-4 py-3 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {groups.map((g) => (
+                  <tr key={g.id}>
+                    <td className="px-4 py-3 align-top">
+                      <div className="font-medium">{g.name}</div>
+                      {g.description && <div className="text-xs text-muted">{g.description}</div>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <GroupChecklist
+                        url={`/api/admin/groups/${g.id}`}
+                        field="userIds"
+                        options={users}
+                        selected={getGroupMembers(g.id).map((m) => m.id)}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right align-top">
+                      <DeleteGroupButton groupId={g.id} name={g.name} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* Category rules */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">Categories</h2>
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-border bg-surface text-xs uppercase tracking-wider text-muted">
+              <tr>
+                <th className="px-4 py-3 font-medium">Category</th>
+                <th className="px-4 py-3 font-medium">Restricted To</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {categories.map((c) => (
+                <tr key={c.id}>
+                  <td className="px-4 py-3">
+                    <Link href={`/categories/${c.slug}`} className="font-medium hover:underline">
+                      {c.name}
+                    </Link>
+                    {c.group_ids.length === 0 && <span className="ml-2 text-xs text-muted">public</span>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <GroupChecklist
+                      url="/api/admin/visibility"
+                      field="groupIds"
+                      body={{ categoryId: c.id }}
+                      options={groupOptions}
+                      selected={c.group_ids}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {/* Article rules */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">Restricted Articles</h2>
+        {articles.length === 0 ? (
+          <p className="text-sm text-muted">No article has a rule of its own.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="w-full text-left text-sm">
+              <thead className="border-b border-border bg-surface text-xs uppercase tracking-wider text-muted">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Article</th>
+                  <th className="px-4 py-3 font-medium">Restricted To</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {articles.map((a) => (
+                  <tr key={a.id}>
+                    <td className="px-4 py-3">
+                      <Link href={`/scripts/${a.id}`} className="font-medium hover:underline">
+                        {a.name}
+                      </Link>
+                      <span className="ml-2 text-xs text-muted">{a.slug}</span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <GroupChecklist
+                        url="/api/admin/visibility"
+                        field="groupIds"
+                        body={{ scriptId: a.id }}
+                        options={groupOptions}
+                        selected={a.group_ids}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
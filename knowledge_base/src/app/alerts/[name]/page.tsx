@@ -0,0 +1,137 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import {
+  getAlertRuleByName,
+  getScriptsForAlertRule,
+  getAlertRuleJsonLd,
+  serializeJsonLd,
+} from "../../../../lib/db";
+import { getCurrentUser } from "../../../../lib/guard";
+import { CopyButton } from "../../../components/CopyButton";
+
+const severityColors: Record<string, string> = {
+  critical: "#dc2626",
+  warning: "#ca8a04",
+  info: "#2563eb",
+};
+
+const kcsColors: Record<string, string> = {
+  draft: "#ca8a04",
+  approved: "#2563eb",
+  published: "#16a34a",
+  retired: "#9ca3af",
+};
+
+export default async function AlertRulePage({
+  params,
+}: {
+  params: Promise<{ name: string }>;
+}) {
+  const { name } = await params;
+  const rule = getAlertRuleByName(decodeURIComponent(name));
+  if (!rule) notFound();
+
+  const scripts = getScriptsForAlertRule(rule.id, await getCurrentUser());
+  const jsonLd = getAlertRuleJsonLd(rule, scripts);
+
+  const facts = [
+    { label: "Severity", value: rule.severity },
+    { label: "Category", value: rule.category },
+    { label: "Pending For", value: rule.for_duration },
+    { label: "Rule Group", value: rule.group_name },
+  ];
+
+  return (
+    <div className="space-y-10">
+      {/* JSON-LD structured data for this alert */}
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(jsonLd) }}
+      />
+
+      {/* Breadcrumb */}
+      <nav className="flex items-center gap-2 text-sm text-muted">
+        <Link href="/alerts" className="hover:text-foreground">
+          Alerts
+        </Link>
+        <span>/</span>
+        <span className="text-foreground">{rule.name}</span>
+      </nav>
+
+      {/* Header */}
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="font-mono text-3xl font-bold tracking-tight">{rule.name}</h1>
+          {rule.severity && (
+            <span
+              className="rounded-md px-2.5 py-1 text-xs font-medium text-white"
+              style={{ backgroundColor: severityColors[rule.severity] || severityColors.info }}
+            >
+              {rule.severity}
+            </span>
+          )}
+        </div>
+        {rule.summary && <p className="text-lg text-muted">{rule.summary}</p>}
+        {rule.description && <p className="text-sm text-muted">{rule.description}</p>}
+      </div>
+
+      <section className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+        {facts.map((f) => (
+          <div key={f.label} className="rounded-lg border border-border p-4">
+            <div className="text-xs font-medium text-muted">{f.label}</div>
+            <div className="mt-1 text-sm font-medium">{f.value ?? "—"}</div>
+          </div>
+        ))}
+      </section>
+
+      {/* PromQL expression */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+            Expression
+          </h2>
+          <CopyButton text={rule.expr} label="Copy" />
+        </div>
+        <pre className="overflow-x-auto rounded-lg bg-surface px-5 py-4 font-mono text-sm">
+          {rule.expr}
+        </pre>
+        <div className="font-mono text-xs text-muted">{rule.file_path}</div>
+      </section>
+
+      {/* Runbook scripts */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+          Diagnostic Scripts
+        </h2>
+        {scripts.length === 0 ? (
+          <p className="text-sm text-muted">
+            No scripts are linked to this alert yet. Add it to a script&apos;s{" "}
+            <code className="font-mono text-xs">alerts</code> list in kcs-metadata.json.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {scripts.map((s) => (
+              <Link
+                key={s.id}
+                href={`/scripts/${s.id}`}
+                className="block rounded-lg border border-border p-5 transition-all hover:border-foreground/20 hover:bg-surface"
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold">{s.name}</span>
+                  <span
+                    className="rounded-full px-1.5 py-0.5 text-[10px] font-medium text-white"
+                    style={{ backgroundColor: kcsColors[s.kcs_state] || kcsColors.draft }}
+                  >
+                    {s.kcs_state}
+                  </span>
+                </div>
+                <p className="mt-1.5 text-sm text-muted">{s.synopsis}</p>
+                <div className="mt-2 font-mono text-xs text-muted">{s.file_path}</div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import Link from "next/link";
+import { getAllAlertRules } from "../../../lib/db";
+import { getCurrentUser } from "../../../lib/guard";
+
+const severityColors: Record<string, string> = {
+  critical: "#dc2626",
+  warning: "#ca8a04",
+  info: "#2563eb",
+};
+
+export default async function AlertsPage() {
+  const rules = getAllAlertRules(await getCurrentUser());
+
+  const grouped = rules.reduce(
+    (acc, r) => {
+      const key = r.group_name || "ungrouped";
+      if (!acc[key]) acc[key] = [];
+      acc[key].push(r);
+      return acc;
+    },
+    {} as Record<string, typeof rules>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Alert Rules</h1>
+        <p className="text-muted">
+          Prometheus alerts from the monitoring stack and the scripts that help diagnose them.
+        </p>
+      </div>
+
+      {rules.length === 0 && (
+        <div className="rounded-lg border border-border py-16 text-center text-muted">
+          No alert rules have been ingested. Run <code className="font-mono text-sm">npm run seed</code>.
+        </div>
+      )}
+
+      {Object.entries(grouped).map(([group, groupRules]) => (
+        <section key={group} className="space-y-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <span className="h-px flex-1 bg-border" />
+            <span className="px-2 font-mono text-base">{group}</span>
+            <span className="h-px flex-1 bg-border" />
+          </h2>
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {groupRules.map((r) => (
+              <Link
+                key={r.id}
+                href={`/alerts/${encodeURIComponent(r.name)}`}
+                className="flex items-center justify-between gap-4 px-6 py-4 transition-colors hover:bg-surface"
+              >
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono font-semibold">{r.name}</span>
+                    {r.severity && (
+                      <span
+                        className="rounded-full px-1.5 py-0.5 text-[10px] font-medium text-white"
+                        style={{ backgroundColor: severityColors[r.severity] || severityColors.info }}
+                      >
+                        {r.severity}
+                      </span>
+                    )}
+                    {r.category && (
+                      <span className="rounded border border-border px-1.5 py-0.5 text-[10px] font-medium text-muted">
+                        {r.category}
+                      </span>
+                    )}
+                  </div>
+                  {r.summary && <p className="mt-1 text-sm text-muted">{r.summary}</p>}
+                </div>
+                <span className="shrink-0 text-xs text-muted">
+                  {r.script_count} script{r.script_count !== 1 ? "s" : ""}
+                </span>
+              </Link>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../lib/auth";
+import { getDb } from "../../../../../lib/db";
+import { computeDrift } from "../../../../../lib/drift";
+import { requireRole } from "../../../../../lib/guard";
+import { loadKcsMetadata } from "../../../../../lib/ingest";
+import { REPO_ROOT } from "../../../../../lib/source";
+
+export async function GET(request: NextRequest) {
+  try {
+    requireRole(request, "coach");
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+  const metadata = loadKcsMetadata(path.join(process.cwd(), "kcs-metadata.json"));
+  return NextResponse.json(computeDrift(getDb(), REPO_ROOT, metadata));
+}
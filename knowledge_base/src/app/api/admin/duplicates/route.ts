@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../lib/auth";
+import { getDb, isScriptVisible } from "../../../../../lib/db";
+import { DUPLICATE_THRESHOLD, getDuplicateClusters, visibleClusters } from "../../../../../lib/duplicates";
+import { requireRole } from "../../../../../lib/guard";
+
+// ?threshold=N (0–100) lowers or raises the score a pair needs to be reported
+export async function GET(request: NextRequest) {
+  try {
+    const user = requireRole(request, "coach");
+    const param = Number(request.nextUrl.searchParams.get("threshold") ?? DUPLICATE_THRESHOLD);
+    const threshold = Number.isFinite(param) ? Math.min(Math.max(param, 0), 100) : DUPLICATE_THRESHOLD;
+    const clusters = visibleClusters(getDuplicateClusters(getDb(), threshold), (id) => isScriptVisible(id, user));
+    return NextResponse.json({ threshold, clusters });
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
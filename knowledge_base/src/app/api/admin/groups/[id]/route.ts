@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../../lib/auth";
+import { requireRole } from "../../../../../../lib/guard";
+import { deleteGroup, setGroupMembers, VisibilityError } from "../../../../../../lib/visibility";
+
+// Replaces the member list: { userIds: number[] }
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    requireRole(request, "publisher");
+    const body = (await request.json().catch(() => null)) as { userIds?: unknown } | null;
+    const userIds = body?.userIds;
+    if (!Array.isArray(userIds) || !userIds.every((u) => Number.isInteger(u))) {
+      return NextResponse.json({ error: "userIds must be a list of user ids" }, { status: 400 });
+    }
+    return NextResponse.json(setGroupMembers(Number(id), userIds));
+  } catch (err) {
+    if (err instanceof AuthError || err instanceof VisibilityError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    requireRole(request, "publisher");
+    deleteGroup(Number(id));
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    if (err instanceof AuthError || err instanceof VisibilityError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
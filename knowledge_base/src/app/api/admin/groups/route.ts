@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../lib/auth";
+import { requireRole } from "../../../../../lib/guard";
+import { createGroup, getGroupMembers, getGroups, VisibilityError } from "../../../../../lib/visibility";
+
+export async function GET(request: NextRequest) {
+  try {
+    requireRole(request, "publisher");
+    return NextResponse.json(getGroups().map((g) => ({ ...g, members: getGroupMembers(g.id) })));
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
+
+// Creates a group: { name, description? }
+export async function POST(request: NextRequest) {
+  try {
+    requireRole(request, "publisher");
+    const body = (await request.json().catch(() => null)) as { name?: unknown; description?: unknown } | null;
+    const name = typeof body?.name === "string" ? body.name : "";
+    const description = typeof body?.description === "string" ? body.description : "";
+    return NextResponse.json(createGroup(name, description), { status: 201 });
+  } catch (err) {
+    if (err instanceof AuthError || err instanceof VisibilityError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
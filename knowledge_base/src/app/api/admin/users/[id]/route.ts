@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError, isRole, ROLES, updateUser } from "../../../../../../lib/auth";
+import { requireRole } from "../../../../../../lib/guard";
+
+// Updates { displayName?, role?, password? }. Publishers can change anyone; everyone else only
+// their own name and password.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = requireRole(request, "viewer");
+    const userId = Number(id);
+    const body = (await request.json().catch(() => null)) as
+      | { displayName?: unknown; role?: unknown; password?: unknown }
+      | null;
+    if (!body) {
+      return NextResponse.json({ error: "Expected a JSON object" }, { status: 400 });
+    }
+    if (body.role !== undefined && !isRole(body.role)) {
+      return NextResponse.json({ error: `role must be one of ${ROLES.join(", ")}` }, { status: 400 });
+    }
+    if (user.id !== userId || body.role !== undefined) {
+      requireRole(request, "publisher");
+    }
+    if (user.id === userId && body.role !== undefined && body.role !== "publisher") {
+      return NextResponse.json({ error: "Publishers can't demote themselves" }, { status: 422 });
+    }
+
+    return NextResponse.json(
+      updateUser(userId, {
+        displayName: typeof body.displayName === "string" ? body.displayName : undefined,
+        role: body.role,
+        password: typeof body.password === "string" ? body.password : undefined,
+      })
+    );
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError, createUser, getUsers, isRole, ROLES } from "../../../../../lib/auth";
+import { requireRole } from "../../../../../lib/guard";
+
+export async function GET(request: NextRequest) {
+  try {
+    requireRole(request, "publisher");
+    return NextResponse.json(getUsers());
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
+
+// Creates an account: { username, displayName, password, role }
+export async function POST(request: NextRequest) {
+  try {
+    requireRole(request, "publisher");
+    const body = (await request.json().catch(() => null)) as
+      | { username?: unknown; displayName?: unknown; password?: unknown; role?: unknown }
+      | null;
+    const username = typeof body?.username === "string" ? body.username.trim() : "";
+    const displayName = typeof body?.displayName === "string" ? body.displayName.trim() : "";
+    const password = typeof body?.password === "string" ? body.password : "";
+    if (!username || !password) {
+      return NextResponse.json({ error: "A username and password are required" }, { status: 400 });
+    }
+    if (!isRole(body?.role)) {
+      return NextResponse.json({ error: `role must be one of ${ROLES.join(", ")}` }, { status: 400 });
+    }
+    return NextResponse.json(createUser(username, displayName, password, body.role), { status: 201 });
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../lib/auth";
+import { requireRole } from "../../../../../lib/guard";
+import {
+  getCategoryRules,
+  getScriptRules,
+  setCategoryGroups,
+  setScriptGroups,
+  VisibilityError,
+} from "../../../../../lib/visibility";
+
+export async function GET(request: NextRequest) {
+  try {
+    requireRole(request, "publisher");
+    return NextResponse.json({ categories: getCategoryRules(), articles: getScriptRules() });
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
+
+// Sets the groups a category or article is restricted to: { categoryId | scriptId, groupIds }.
+// An empty groupIds list removes the restriction.
+export async function PUT(request: NextRequest) {
+  try {
+    requireRole(request, "publisher");
+    const body = (await request.json().catch(() => null)) as
+      | { categoryId?: unknown; scriptId?: unknown; groupIds?: unknown }
+      | null;
+    const groupIds = body?.groupIds;
+    if (!Array.isArray(groupIds) || !groupIds.every((g) => Number.isInteger(g))) {
+      return NextResponse.json({ error: "groupIds must be a list of group ids" }, { status: 400 });
+    }
+    if (Number.isInteger(body?.categoryId)) {
+      setCategoryGroups(body!.categoryId as number, groupIds);
+    } else if (Number.isInteger(body?.scriptId)) {
+      setScriptGroups(body!.scriptId as number, groupIds);
+    } else {
+      return NextResponse.json({ error: "Expected a categoryId or scriptId" }, { status: 400 });
+    }
+    return NextResponse.json({ categories: getCategoryRules(), articles: getScriptRules() });
+  } catch (err) {
+    if (err instanceof AuthError || err instanceof VisibilityError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
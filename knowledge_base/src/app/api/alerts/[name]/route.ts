@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAlertRuleByName, getScriptsForAlertRule } from "../../../../../lib/db";
+import { getRequestUser } from "../../../../../lib/guard";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params;
+  const rule = getAlertRuleByName(decodeURIComponent(name));
+  if (!rule) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json({ ...rule, scripts: getScriptsForAlertRule(rule.id, getRequestUser(request)) });
+}
@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAllAlertRules } from "../../../../lib/db";
+import { getRequestUser } from "../../../../lib/guard";
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(getAllAlertRules(getRequestUser(request)));
+}
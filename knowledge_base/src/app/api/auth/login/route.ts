@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, createSession } from "../../../../../lib/auth";
+import { sessionCookie } from "../../../../../lib/guard";
+
+// Exchanges { username, password } for a session cookie
+export async function POST(request: NextRequest) {
+  const body = (await request.json().catch(() => null)) as { username?: unknown; password?: unknown } | null;
+  const username = typeof body?.username === "string" ? body.username.trim() : "";
+  const password = typeof body?.password === "string" ? body.password : "";
+  if (!username || !password) {
+    return NextResponse.json({ error: "A username and password are required" }, { status: 400 });
+  }
+
+  const user = authenticate(username, password);
+  if (!user) {
+    return NextResponse.json({ error: "Wrong username or password" }, { status: 401 });
+  }
+  const { token, expiresAt } = createSession(user.id);
+  const response = NextResponse.json(user);
+  response.cookies.set(sessionCookie(token, expiresAt));
+  return response;
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteSession } from "../../../../../lib/auth";
+import { SESSION_COOKIE } from "../../../../../lib/guard";
+
+export async function POST(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) deleteSession(token);
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
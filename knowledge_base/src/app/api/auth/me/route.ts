@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser } from "../../../../../lib/guard";
+
+// The signed-in user, or { user: null } for anonymous readers
+export async function GET(request: NextRequest) {
+  return NextResponse.json({ user: getRequestUser(request) });
+}
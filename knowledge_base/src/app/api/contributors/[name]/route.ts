@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getContributorProfile } from "../../../../../lib/contributors";
+import { getRequestUser } from "../../../../../lib/guard";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params;
+  const profile = getContributorProfile(decodeURIComponent(name), getRequestUser(request));
+  if (!profile) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json(profile);
+}
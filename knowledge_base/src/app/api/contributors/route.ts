@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getContributorSummaries } from "../../../../lib/contributors";
+import { getRequestUser } from "../../../../lib/guard";
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(getContributorSummaries(getRequestUser(request)));
+}
@@ -1,9 +1,11 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getAllCategories, getStats, getCatalogJsonLd } from "../../../../../lib/db";
+import { getRequestUser } from "../../../../../lib/guard";
 
-export async function GET() {
-  const categories = getAllCategories();
-  const stats = getStats();
+export async function GET(request: NextRequest) {
+  const viewer = getRequestUser(request);
+  const categories = getAllCategories(viewer);
+  const stats = getStats(viewer);
   const jsonLd = getCatalogJsonLd(categories, stats);
 
   return NextResponse.json(jsonLd, {
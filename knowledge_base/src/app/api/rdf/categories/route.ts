@@ -1,8 +1,9 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getAllCategories, getCategoryJsonLd } from "../../../../../lib/db";
+import { getRequestUser } from "../../../../../lib/guard";
 
-export async function GET() {
-  const categories = getAllCategories();
+export async function GET(request: NextRequest) {
+  const categories = getAllCategories(getRequestUser(request));
   const jsonLd = {
     "@context": {
       "@vocab": "https://schema.org/",
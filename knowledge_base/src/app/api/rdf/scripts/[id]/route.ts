@@ -1,23 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
   getScriptById,
+  isScriptVisible,
   getParametersForScript,
   getTagsForScript,
+  getExamplesForScript,
+  getAlertRulesForScript,
   getScriptJsonLd,
+  getReplacement,
+  getSupersededScripts,
 } from "../../../../../../lib/db";
+import { getRequestUser } from "../../../../../../lib/guard";
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const viewer = getRequestUser(request);
   const script = getScriptById(Number(id));
-  if (!script) {
+  if (!script || !isScriptVisible(script.id, viewer)) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
   const parameters = getParametersForScript(script.id);
   const tags = getTagsForScript(script.id);
-  const jsonLd = getScriptJsonLd(script, parameters, tags);
+  const examples = getExamplesForScript(script.id);
+  const alertRules = getAlertRulesForScript(script.id);
+  const jsonLd = getScriptJsonLd(
+    script,
+    parameters,
+    tags,
+    examples,
+    alertRules,
+    getReplacement(script, viewer),
+    getSupersededScripts(script.id, viewer)
+  );
 
   return NextResponse.json(jsonLd, {
     headers: {
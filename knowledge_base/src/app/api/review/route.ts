@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../lib/auth";
+import { getCategoryBySlug } from "../../../../lib/db";
+import { requireRole } from "../../../../lib/guard";
+import { isKcsState } from "../../../../lib/kcs";
+import { getReviewIntervals, getReviewQueue, setReviewInterval } from "../../../../lib/review";
+
+// ?all=1 lists every reviewable article, not just those past their interval
+export async function GET(request: NextRequest) {
+  try {
+    const user = requireRole(request, "coach");
+    const all = request.nextUrl.searchParams.get("all") === "1";
+    return NextResponse.json({ intervals: getReviewIntervals(), articles: getReviewQueue(user, all) });
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
+
+// Sets (or with days: null, removes) the review interval for a state or category
+export async function PUT(request: NextRequest) {
+  try {
+    const user = requireRole(request, "coach");
+    const body = (await request.json().catch(() => null)) as
+      | { scope?: unknown; key?: unknown; days?: unknown }
+      | null;
+    if (!body || (body.scope !== "state" && body.scope !== "category") || typeof body.key !== "string" || !body.key) {
+      return NextResponse.json({ error: 'Expected { scope: "state" | "category", key, days }' }, { status: 400 });
+    }
+    if (body.scope === "state" ? !isKcsState(body.key) : !getCategoryBySlug(body.key, user)) {
+      return NextResponse.json({ error: `Unknown ${body.scope} "${body.key}"` }, { status: 400 });
+    }
+    const days = body.days === null ? null : Number(body.days);
+    if (days !== null && (!Number.isInteger(days) || days <= 0)) {
+      return NextResponse.json({ error: "days must be a positive integer or null" }, { status: 400 });
+    }
+    setReviewInterval(body.scope, body.key, days);
+    return NextResponse.json(getReviewIntervals());
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
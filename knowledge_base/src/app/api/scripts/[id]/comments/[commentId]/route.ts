@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../../../lib/auth";
+import { CommentError, setThreadResolved } from "../../../../../../../lib/comments";
+import { isScriptVisible } from "../../../../../../../lib/db";
+import { requireRole } from "../../../../../../../lib/guard";
+
+// { resolved: boolean } on the first comment of a thread closes or reopens the whole thread
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  const { id, commentId } = await params;
+  try {
+    const user = requireRole(request, "viewer");
+    if (!isScriptVisible(Number(id), user)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const body = (await request.json().catch(() => null)) as { resolved?: unknown } | null;
+    if (typeof body?.resolved !== "boolean") {
+      return NextResponse.json({ error: "Expected { resolved: true | false }" }, { status: 400 });
+    }
+    return NextResponse.json(setThreadResolved(Number(id), Number(commentId), body.resolved, user));
+  } catch (err) {
+    if (err instanceof AuthError || err instanceof CommentError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
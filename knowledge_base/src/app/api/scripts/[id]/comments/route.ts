@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../../lib/auth";
+import { addComment, CommentError, getThreads } from "../../../../../../lib/comments";
+import { getScriptById, isScriptVisible } from "../../../../../../lib/db";
+import { getRequestUser, requireRole } from "../../../../../../lib/guard";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = getRequestUser(request);
+  const script = getScriptById(Number(id));
+  if (!script || !isScriptVisible(script.id, viewer)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  const threads = getThreads(script.id, viewer);
+  return NextResponse.json({ unresolved: threads.filter((t) => !t.resolved_at).length, threads });
+}
+
+// { body: Markdown, parentId?: comment being answered } — any signed-in reader may join a discussion
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = requireRole(request, "viewer");
+    if (!isScriptVisible(Number(id), user)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const body = (await request.json().catch(() => null)) as { body?: unknown; parentId?: unknown } | null;
+    if (typeof body?.body !== "string") {
+      return NextResponse.json({ error: "Expected { body, parentId? }" }, { status: 400 });
+    }
+    const parentId = typeof body.parentId === "number" ? body.parentId : null;
+    return NextResponse.json(addComment(Number(id), body.body, parentId, user), { status: 201 });
+  } catch (err) {
+    if (err instanceof AuthError || err instanceof CommentError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDependencyClosure } from "../../../../../../lib/db";
+import { getRequestUser } from "../../../../../../lib/guard";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const closure = getDependencyClosure(Number(id), getRequestUser(request));
+  if (!closure) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json(closure);
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, getScriptById, isScriptVisible } from "../../../../../../lib/db";
+import { findDuplicatesOf } from "../../../../../../lib/duplicates";
+import { getRequestUser } from "../../../../../../lib/guard";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = getRequestUser(request);
+  const script = getScriptById(Number(id));
+  if (!script || !isScriptVisible(script.id, viewer)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  const matches = findDuplicatesOf(getDb(), script.id).filter((m) => isScriptVisible(m.id, viewer));
+  return NextResponse.json(matches);
+}
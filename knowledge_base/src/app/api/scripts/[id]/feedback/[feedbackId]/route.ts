@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../../../lib/auth";
+import { isScriptVisible } from "../../../../../../../lib/db";
+import { FeedbackError, resolveFlag } from "../../../../../../../lib/feedback";
+import { requireRole } from "../../../../../../../lib/guard";
+
+// Owners close a flag once the article has been fixed (or the flag was not actionable)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; feedbackId: string }> }
+) {
+  const { id, feedbackId } = await params;
+  try {
+    const user = requireRole(request, "viewer");
+    if (!isScriptVisible(Number(id), user)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const body = (await request.json().catch(() => null)) as { status?: unknown } | null;
+    if (body?.status !== "resolved") {
+      return NextResponse.json({ error: 'Expected { status: "resolved" }' }, { status: 400 });
+    }
+    return NextResponse.json(resolveFlag(Number(id), Number(feedbackId), user));
+  } catch (err) {
+    if (err instanceof AuthError || err instanceof FeedbackError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getScriptById, isScriptVisible } from "../../../../../../lib/db";
+import { getRequestUser } from "../../../../../../lib/guard";
+import {
+  addFeedback,
+  FEEDBACK_OUTCOMES,
+  FeedbackError,
+  getFeedbackSummary,
+  getOpenFlags,
+  isFeedbackOutcome,
+  isFlagOwner,
+} from "../../../../../../lib/feedback";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = getRequestUser(request);
+  const script = getScriptById(Number(id));
+  if (!script || !isScriptVisible(script.id, viewer)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  // Everyone sees the counts; only the article's owners see what the flags say
+  const flags = isFlagOwner(script.id, viewer) ? getOpenFlags(script.id) : [];
+  return NextResponse.json({ ...getFeedbackSummary(script.id), flags });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = getRequestUser(request);
+  if (!isScriptVisible(Number(id), viewer)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  const body = (await request.json().catch(() => null)) as
+    | { outcome?: unknown; comment?: unknown; reader?: unknown }
+    | null;
+  if (!body || !isFeedbackOutcome(body.outcome)) {
+    return NextResponse.json({ error: `outcome must be one of ${FEEDBACK_OUTCOMES.join(", ")}` }, { status: 400 });
+  }
+  const comment = typeof body.comment === "string" ? body.comment.trim().slice(0, 2000) : "";
+  // Anyone may rate an article; signed-in readers are recorded under their account name
+  const reader = viewer?.display_name ?? (typeof body.reader === "string" ? body.reader.trim().slice(0, 100) : "");
+
+  try {
+    const feedback = addFeedback(Number(id), body.outcome, comment || null, reader || null);
+    return NextResponse.json(feedback, { status: 201 });
+  } catch (err) {
+    if (err instanceof FeedbackError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
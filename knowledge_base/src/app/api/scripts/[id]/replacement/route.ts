@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../../lib/auth";
+import { getReplacement, getScriptById, getSupersededScripts, isScriptVisible } from "../../../../../../lib/db";
+import { getRequestUser, requireRole } from "../../../../../../lib/guard";
+import { setReplacement, TransitionError } from "../../../../../../lib/kcs";
+
+// The article that replaced this one and the retired articles this one replaces
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = getRequestUser(request);
+  const script = getScriptById(Number(id));
+  if (!script || !isScriptVisible(script.id, viewer)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  const replacedBy = getReplacement(script, viewer);
+  return NextResponse.json({
+    replacedBy: replacedBy && { id: replacedBy.id, name: replacedBy.name, reason: script.superseded_reason },
+    replaces: getSupersededScripts(script.id, viewer).map((s) => ({ id: s.id, name: s.name, reason: s.relation })),
+  });
+}
+
+// Names the replacement of a retired article: { replacementId: number | null, reason }
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const actor = requireRole(request, "publisher");
+    if (!isScriptVisible(Number(id), actor)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const body = (await request.json().catch(() => null)) as { replacementId?: unknown; reason?: unknown } | null;
+    const replacementId = body?.replacementId ?? null;
+    if (replacementId !== null && !Number.isInteger(replacementId)) {
+      return NextResponse.json({ error: "replacementId must be an article id or null" }, { status: 400 });
+    }
+    const reason = typeof body?.reason === "string" ? body.reason.trim() : "";
+    if (replacementId !== null && !reason) {
+      return NextResponse.json({ error: "A reason is required" }, { status: 400 });
+    }
+
+    const script = setReplacement(Number(id), replacementId as number | null, reason, actor);
+    return NextResponse.json(script);
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    if (err instanceof TransitionError) {
+      return NextResponse.json({ error: err.message, problems: err.problems }, { status: err.status });
+    }
+    throw err;
+  }
+}
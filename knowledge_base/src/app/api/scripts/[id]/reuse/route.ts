@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../../lib/auth";
+import { getScriptById, isScriptVisible } from "../../../../../../lib/db";
+import { requireRole, getRequestUser } from "../../../../../../lib/guard";
+import {
+  getReuseCounts,
+  getReuseEvents,
+  isReuseOutcome,
+  recordReuse,
+  REUSE_OUTCOMES,
+  ReuseError,
+} from "../../../../../../lib/reuse";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const script = getScriptById(Number(id));
+  if (!script || !isScriptVisible(script.id, getRequestUser(request))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json({ ...getReuseCounts(script.id), events: getReuseEvents(script.id) });
+}
+
+// Links the article to an incident on behalf of the signed-in user: { incidentRef, outcome, notes? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = requireRole(request, "contributor");
+    if (!isScriptVisible(Number(id), user)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const body = (await request.json().catch(() => null)) as
+      | { incidentRef?: unknown; outcome?: unknown; notes?: unknown }
+      | null;
+    const incidentRef = typeof body?.incidentRef === "string" ? body.incidentRef.trim() : "";
+    if (!incidentRef) {
+      return NextResponse.json({ error: "incidentRef is required" }, { status: 400 });
+    }
+    if (!isReuseOutcome(body?.outcome)) {
+      return NextResponse.json({ error: `outcome must be one of ${REUSE_OUTCOMES.join(", ")}` }, { status: 400 });
+    }
+    const notes = typeof body?.notes === "string" && body.notes.trim() ? body.notes.trim() : null;
+
+    const { event, created } = recordReuse(Number(id), incidentRef, user.display_name, body.outcome, notes);
+    return NextResponse.json(event, { status: created ? 201 : 200 });
+  } catch (err) {
+    if (err instanceof AuthError || err instanceof ReuseError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
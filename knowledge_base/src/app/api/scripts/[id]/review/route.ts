@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../../lib/auth";
+import { isScriptVisible } from "../../../../../../lib/db";
+import { requireRole } from "../../../../../../lib/guard";
+import { markReviewed, ReviewError } from "../../../../../../lib/review";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const reviewer = requireRole(request, "coach");
+    if (!isScriptVisible(Number(id), reviewer)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const body = (await request.json().catch(() => null)) as { confidence?: unknown } | null;
+    const confidence = body?.confidence ?? undefined;
+    if (confidence !== undefined && (!Number.isInteger(confidence) || (confidence as number) < 0 || (confidence as number) > 100)) {
+      return NextResponse.json({ error: "confidence must be an integer from 0 to 100" }, { status: 400 });
+    }
+    return NextResponse.json(markReviewed(Number(id), reviewer, confidence as number | undefined));
+  } catch (err) {
+    if (err instanceof AuthError || err instanceof ReviewError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../../../../lib/auth";
+import { EditError, restoreRevision } from "../../../../../../../../lib/edit";
+import { isScriptVisible } from "../../../../../../../../lib/db";
+import { requireRole } from "../../../../../../../../lib/guard";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revision: string }> }
+) {
+  const { id, revision } = await params;
+  try {
+    const actor = requireRole(request, "coach");
+    if (!isScriptVisible(Number(id), actor)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json(restoreRevision(Number(id), Number(revision), actor));
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    if (err instanceof EditError) {
+      return NextResponse.json({ error: err.message, problems: err.problems }, { status: err.status });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isScriptVisible } from "../../../../../../../lib/db";
+import { getRequestUser } from "../../../../../../../lib/guard";
+import { diffSnapshots, getRevision } from "../../../../../../../lib/revisions";
+
+// ?against=N adds the field changes from revision N to this one
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revision: string }> }
+) {
+  const { id, revision } = await params;
+  const current = getRevision(Number(id), Number(revision));
+  if (!current || !isScriptVisible(current.script_id, getRequestUser(request))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const against = request.nextUrl.searchParams.get("against");
+  if (against === null) return NextResponse.json(current);
+
+  const base = getRevision(Number(id), Number(against));
+  if (!base) {
+    return NextResponse.json({ error: `Revision ${against} not found` }, { status: 404 });
+  }
+  return NextResponse.json({ ...current, changes: diffSnapshots(base.snapshot, current.snapshot) });
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getScriptById, isScriptVisible } from "../../../../../../lib/db";
+import { getRequestUser } from "../../../../../../lib/guard";
+import { getRevisions } from "../../../../../../lib/revisions";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const script = getScriptById(Number(id));
+  if (!script || !isScriptVisible(script.id, getRequestUser(request))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json(getRevisions(script.id));
+}
@@ -1,16 +1,83 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getScriptById, getParametersForScript, getTagsForScript } from "../../../../../lib/db";
+import {
+  getScriptById,
+  isScriptVisible,
+  getParametersForScript,
+  getTagsForScript,
+  getExamplesForScript,
+  getAlertRulesForScript,
+  getCommitsForScript,
+} from "../../../../../lib/db";
+import { AuthError } from "../../../../../lib/auth";
+import { editScript, EditError, parseScriptPatch } from "../../../../../lib/edit";
+import { getFeedbackSummary } from "../../../../../lib/feedback";
+import { requireRole, getRequestUser } from "../../../../../lib/guard";
+
+// The article version doubles as its ETag, so clients can send it back in If-Match
+function etag(version: number): string {
+  return `"${version}"`;
+}
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
   const script = getScriptById(Number(id));
-  if (!script) {
+  if (!script || !isScriptVisible(script.id, getRequestUser(request))) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
   const parameters = getParametersForScript(script.id);
   const tags = getTagsForScript(script.id);
-  return NextResponse.json({ ...script, parameters, tags });
+  const examples = getExamplesForScript(script.id);
+  const alertRules = getAlertRulesForScript(script.id);
+  const commits = getCommitsForScript(script.id);
+  const feedback = getFeedbackSummary(script.id);
+  return NextResponse.json(
+    { ...script, parameters, tags, examples, alertRules, commits, feedback },
+    { headers: { ETag: etag(script.version) } }
+  );
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const editor = requireRole(request, "contributor");
+    if (!isScriptVisible(Number(id), editor)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return NextResponse.json({ error: "Expected a JSON object" }, { status: 400 });
+    }
+
+    // Either the If-Match header or a "version" in the body; one is required
+    const ifMatch = request.headers.get("if-match")?.replace(/^W\//, "").replace(/"/g, "");
+    const version = Number(ifMatch ?? body.version);
+    if (!Number.isInteger(version)) {
+      return NextResponse.json({ error: "Send the article version as If-Match or \"version\"" }, { status: 428 });
+    }
+
+    const { patch, problems } = parseScriptPatch(body);
+    if (problems.length) {
+      return NextResponse.json({ error: "Invalid edit", problems }, { status: 400 });
+    }
+
+    const script = editScript(Number(id), patch, version, editor);
+    return NextResponse.json(
+      { ...script, parameters: getParametersForScript(script.id), tags: getTagsForScript(script.id) },
+      { headers: { ETag: etag(script.version) } }
+    );
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    if (err instanceof EditError) {
+      return NextResponse.json({ error: err.message, problems: err.problems }, { status: err.status });
+    }
+    throw err;
+  }
 }
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getScriptById, isScriptVisible } from "../../../../../../lib/db";
+import { getRequestUser } from "../../../../../../lib/guard";
+import { readRepoFile, SourceAccessError } from "../../../../../../lib/source";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const script = getScriptById(Number(id));
+  if (!script || !isScriptVisible(script.id, getRequestUser(request))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  let source: string | null;
+  try {
+    source = readRepoFile(script.file_path);
+  } catch (err) {
+    if (err instanceof SourceAccessError) {
+      return NextResponse.json({ error: err.message }, { status: 403 });
+    }
+    throw err;
+  }
+  if (source === null) {
+    return NextResponse.json({ error: "Source file not found" }, { status: 404 });
+  }
+
+  return new NextResponse(source, {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Content-Disposition": `inline; filename="${script.file_path.split("/").pop()}"`,
+    },
+  });
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../../lib/auth";
+import { getScriptById, isScriptVisible } from "../../../../../../lib/db";
+import { requireRole, getRequestUser } from "../../../../../../lib/guard";
+import {
+  KCS_TRANSITIONS,
+  getStateHistory,
+  isKcsState,
+  transitionRole,
+  transitionScript,
+  TransitionError,
+} from "../../../../../../lib/kcs";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const script = getScriptById(Number(id));
+  if (!script || !isScriptVisible(script.id, getRequestUser(request))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json({
+    state: script.kcs_state,
+    allowed: KCS_TRANSITIONS[script.kcs_state],
+    // Role needed for each of the allowed moves
+    roles: Object.fromEntries(
+      KCS_TRANSITIONS[script.kcs_state].map((to) => [to, transitionRole(script.kcs_state, to)])
+    ),
+    history: getStateHistory(script.id),
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const actor = requireRole(request, "contributor");
+    if (!isScriptVisible(Number(id), actor)) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const body = (await request.json().catch(() => null)) as
+      | { to?: unknown; reason?: unknown; replacementId?: unknown }
+      | null;
+    if (!body || !isKcsState(body.to)) {
+      return NextResponse.json(
+        { error: `"to" must be one of ${Object.keys(KCS_TRANSITIONS).join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+    if (!reason) {
+      return NextResponse.json({ error: "A reason is required" }, { status: 400 });
+    }
+
+    const replacementId = body.replacementId ?? null;
+    if (replacementId !== null && !Number.isInteger(replacementId)) {
+      return NextResponse.json({ error: "replacementId must be an article id" }, { status: 400 });
+    }
+
+    const script = transitionScript(Number(id), body.to, reason, actor, replacementId as number | null);
+    return NextResponse.json({ ...script, history: getStateHistory(script.id) });
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    if (err instanceof TransitionError) {
+      return NextResponse.json({ error: err.message, problems: err.problems }, { status: err.status });
+    }
+    throw err;
+  }
+}
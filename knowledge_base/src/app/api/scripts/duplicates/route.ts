@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "../../../../../lib/auth";
+import { getDb, isScriptVisible } from "../../../../../lib/db";
+import { findDuplicates } from "../../../../../lib/duplicates";
+import { requireRole } from "../../../../../lib/guard";
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+// Checks a new article against the knowledge base before it is written:
+// { name, synopsis?, tags?: string[], parameters?: string[] } → likely duplicates with a 0–100 score
+export async function POST(request: NextRequest) {
+  try {
+    const user = requireRole(request, "contributor");
+    const body = (await request.json().catch(() => null)) as
+      | { name?: unknown; synopsis?: unknown; tags?: unknown; parameters?: unknown }
+      | null;
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!name) {
+      return NextResponse.json({ error: "A name is required" }, { status: 400 });
+    }
+    const matches = findDuplicates(getDb(), {
+      name,
+      synopsis: typeof body?.synopsis === "string" ? body.synopsis : null,
+      tags: strings(body?.tags),
+      parameters: strings(body?.parameters),
+    });
+    return NextResponse.json(matches.filter((m) => isScriptVisible(m.id, user)));
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
@@ -1,8 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { searchScripts, getAllScripts } from "../../../../lib/db";
+import { searchKnowledge, getAllScripts, getAllDocuments, SearchResult } from "../../../../lib/db";
+import { getRequestUser } from "../../../../lib/guard";
 
+// Retired articles are left out unless ?retired=1
 export async function GET(request: NextRequest) {
   const q = request.nextUrl.searchParams.get("q") ?? "";
-  const scripts = q.trim() ? searchScripts(q) : getAllScripts();
-  return NextResponse.json(scripts);
+  const includeRetired = request.nextUrl.searchParams.get("retired") === "1";
+  const viewer = getRequestUser(request);
+  const results: SearchResult[] = q.trim()
+    ? searchKnowledge(q, viewer, includeRetired)
+    : [
+        ...getAllScripts(viewer)
+          .filter((s) => includeRetired || s.kcs_state !== "retired")
+          .map((s) => ({ ...s, kind: "script" as const })),
+        ...getAllDocuments(viewer).map((d) => ({ ...d, kind: "document" as const, snippet: null })),
+      ];
+  return NextResponse.json(results);
 }
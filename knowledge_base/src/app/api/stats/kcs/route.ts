@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser } from "../../../../../lib/guard";
+import { getKcsMetrics } from "../../../../../lib/metrics";
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(getKcsMetrics(getRequestUser(request)));
+}
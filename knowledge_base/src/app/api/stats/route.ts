@@ -1,6 +1,7 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getStats } from "../../../../lib/db";
+import { getRequestUser } from "../../../../lib/guard";
 
-export async function GET() {
-  return NextResponse.json(getStats());
+export async function GET(request: NextRequest) {
+  return NextResponse.json(getStats(getRequestUser(request)));
 }
@@ -4,7 +4,9 @@ import {
   getCategoryBySlug,
   getScriptsByCategory,
   getParametersForScript,
+  REUSE_WINDOW_DAYS,
 } from "../../../../lib/db";
+import { getCurrentUser } from "../../../../lib/guard";
 
 const kcsColors: Record<string, string> = {
   draft: "#ca8a04",
@@ -15,14 +17,18 @@ const kcsColors: Record<string, string> = {
 
 export default async function CategoryPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ slug: string }>;
+  searchParams: Promise<{ sort?: string }>;
 }) {
   const { slug } = await params;
-  const category = getCategoryBySlug(slug);
+  const viewer = await getCurrentUser();
+  const category = getCategoryBySlug(slug, viewer);
   if (!category) notFound();
 
-  const scripts = getScriptsByCategory(category.id);
+  const sort = (await searchParams).sort === "reuse" ? "reuse" : "name";
+  const scripts = getScriptsByCategory(category.id, viewer, sort);
 
   // Group by subcategory
   const grouped = scripts.reduce(
@@ -53,6 +59,22 @@ export default async function CategoryPage({
           {category.script_count} script
           {category.script_count !== 1 ? "s" : ""} in this category
         </p>
+        <div className="flex gap-2 pt-1 text-xs">
+          {[
+            { value: "name", label: "By name" },
+            { value: "reuse", label: `Most reused (${REUSE_WINDOW_DAYS} days)` },
+          ].map((o) => (
+            <Link
+              key={o.value}
+              href={o.value === "name" ? `/categories/${slug}` : `/categories/${slug}?sort=${o.value}`}
+              className={`rounded-full px-3 py-1 font-medium transition-colors ${
+                sort === o.value ? "bg-accent text-background" : "border border-border text-muted hover:text-foreground"
+              }`}
+            >
+              {o.label}
+            </Link>
+          ))}
+        </div>
       </div>
 
       {Object.entries(grouped).map(([sub, subScripts]) => (
@@ -81,6 +103,16 @@ export default async function CategoryPage({
                         >
                           {script.kcs_state}
                         </span>
+                        {script.recent_reuse > 0 && (
+                          <span className="rounded bg-badge-bg px-1.5 py-0.5 text-[10px] font-medium text-badge-text">
+                            Reused {script.recent_reuse}&times;
+                          </span>
+                        )}
+                        {script.open_threads > 0 && (
+                          <span className="rounded bg-badge-bg px-1.5 py-0.5 text-[10px] font-medium text-badge-text">
+                            {script.open_threads} open thread{script.open_threads !== 1 ? "s" : ""}
+                          </span>
+                        )}
                         {script.supports_whatif === 1 && (
                           <span className="rounded border border-border px-1.5 py-0.5 text-[10px] font-medium text-muted">
                             WhatIf
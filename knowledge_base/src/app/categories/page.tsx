@@ -1,8 +1,9 @@
 import Link from "next/link";
 import { getAllCategories } from "../../../lib/db";
+import { getCurrentUser } from "../../../lib/guard";
 
-export default function CategoriesPage() {
-  const categories = getAllCategories();
+export default async function CategoriesPage() {
+  const categories = getAllCategories(await getCurrentUser());
 
   return (
     <div className="space-y-8">
@@ -25,6 +26,11 @@ export default function CategoriesPage() {
               <p className="mt-1 text-sm text-muted">{cat.description}</p>
             </div>
             <div className="flex items-center gap-3">
+              {!!cat.open_discussions && (
+                <span className="rounded bg-badge-bg px-1.5 py-0.5 text-[10px] font-medium text-badge-text">
+                  {cat.open_discussions} with open questions
+                </span>
+              )}
               <span className="rounded-full bg-accent px-3 py-1 text-xs font-medium text-background">
                 {cat.script_count}
               </span>
@@ -0,0 +1,160 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ROLE_LABELS } from "../../../../lib/auth";
+import { ContributedArticle, getContributorProfile } from "../../../../lib/contributors";
+import { getCurrentUser } from "../../../../lib/guard";
+
+export const dynamic = "force-dynamic";
+
+const kcsColors: Record<string, string> = {
+  draft: "#ca8a04",
+  approved: "#2563eb",
+  published: "#16a34a",
+  retired: "#9ca3af",
+};
+
+// Bar colors for the monthly chart, one per contribution type
+const typeColors = {
+  authored: "#16a34a",
+  reviewed: "#2563eb",
+  edited: "#ca8a04",
+  other: "#9ca3af",
+};
+
+const sections: { type: ContributedArticle["contribution_type"]; title: string }[] = [
+  { type: "author", title: "Authored" },
+  { type: "reviewer", title: "Reviewed" },
+  { type: "editor", title: "Edited" },
+  { type: "contributor", title: "Other Contributions" },
+];
+
+export default async function ContributorPage({
+  params,
+}: {
+  params: Promise<{ name: string }>;
+}) {
+  const { name } = await params;
+  const profile = getContributorProfile(decodeURIComponent(name), await getCurrentUser());
+  if (!profile) notFound();
+
+  const stats = [
+    { label: "Articles", value: profile.articles },
+    { label: "Authored", value: profile.authored },
+    { label: "Reviewed", value: profile.reviewed },
+    { label: "Edited", value: profile.edited },
+    { label: "Avg. Confidence", value: profile.avg_confidence !== null ? `${profile.avg_confidence}%` : "—" },
+  ];
+  const busiestMonth = Math.max(
+    1,
+    ...profile.monthly.map((m) => m.authored + m.reviewed + m.edited + m.other)
+  );
+
+  return (
+    <div className="space-y-10">
+      {/* Breadcrumb */}
+      <nav className="flex items-center gap-2 text-sm text-muted">
+        <Link href="/contributors" className="hover:text-foreground">
+          Contributors
+        </Link>
+        <span>/</span>
+        <span className="text-foreground">{profile.name}</span>
+      </nav>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-3xl font-bold tracking-tight">{profile.name}</h1>
+          {profile.account && (
+            <span className="rounded-full bg-badge-bg px-3 py-1 text-xs font-medium text-badge-text">
+              {ROLE_LABELS[profile.account.role]} &middot; {profile.account.username}
+            </span>
+          )}
+        </div>
+        <p className="text-xs text-muted">
+          Last active {new Date(profile.last_contributed_at).toLocaleDateString()} &middot;{" "}
+          <a href={`/api/contributors/${encodeURIComponent(profile.name)}`} className="hover:text-foreground">
+            JSON
+          </a>
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+        {stats.map((s) => (
+          <div key={s.label} className="rounded-lg border border-border p-5">
+            <div className="text-2xl font-bold">{s.value}</div>
+            <div className="mt-1 text-sm text-muted">{s.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Contributions per month, stacked by type */}
+      {profile.monthly.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+            Contributions Over Time
+          </h2>
+          <div className="space-y-2 rounded-lg border border-border p-5">
+            {profile.monthly.map((m) => (
+              <div key={m.month} className="flex items-center gap-3 text-xs">
+                <span className="w-16 shrink-0 font-mono text-muted">{m.month}</span>
+                <div className="flex h-3 flex-1 overflow-hidden rounded-full bg-border">
+                  {(Object.keys(typeColors) as (keyof typeof typeColors)[]).map((t) => (
+                    <div
+                      key={t}
+                      title={`${m[t]} ${t}`}
+                      style={{ width: `${(m[t] / busiestMonth) * 100}%`, backgroundColor: typeColors[t] }}
+                    />
+                  ))}
+                </div>
+                <span className="w-6 text-right font-mono">{m.authored + m.reviewed + m.edited + m.other}</span>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-4 pt-2 text-xs text-muted">
+              {(Object.entries(typeColors) as [string, string][]).map(([t, color]) => (
+                <span key={t} className="flex items-center gap-1.5">
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+                  {t}
+                </span>
+              ))}
+            </div>
+          </div>
+        </section>
+      )}
+
+      {sections.map(({ type, title }) => {
+        const articles = profile.contributions.filter((c) => c.contribution_type === type);
+        if (articles.length === 0) return null;
+        return (
+          <section key={type} className="space-y-3">
+            <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+              {title} ({articles.length})
+            </h2>
+            <div className="divide-y divide-border rounded-lg border border-border">
+              {articles.map((a) => (
+                <Link
+                  key={a.id}
+                  href={`/scripts/${a.id}`}
+                  className="flex items-center justify-between gap-4 px-5 py-3 text-sm transition-colors hover:bg-surface"
+                >
+                  <span className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{a.name}</span>
+                    <span
+                      className="rounded-full px-1.5 py-0.5 text-[10px] font-medium text-white"
+                      style={{ backgroundColor: kcsColors[a.kcs_state] || kcsColors.draft }}
+                    >
+                      {a.kcs_state}
+                    </span>
+                    <span className="text-xs text-muted">{a.category_name}</span>
+                  </span>
+                  <span className="flex shrink-0 gap-3 text-xs text-muted">
+                    <span>{a.confidence}%</span>
+                    <span>{new Date(a.contributed_at).toLocaleDateString()}</span>
+                  </span>
+                </Link>
+              ))}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
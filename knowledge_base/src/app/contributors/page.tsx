@@ -0,0 +1,68 @@
+import Link from "next/link";
+import { getContributorSummaries } from "../../../lib/contributors";
+import { getCurrentUser } from "../../../lib/guard";
+
+export const dynamic = "force-dynamic";
+
+export default async function ContributorsPage() {
+  const contributors = getContributorSummaries(await getCurrentUser());
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Contributors</h1>
+        <p className="text-muted">
+          Everyone who has authored, reviewed or edited a knowledge base article.
+        </p>
+        <p className="text-xs text-muted">
+          <a href="/api/contributors" className="hover:text-foreground">
+            JSON
+          </a>
+        </p>
+      </div>
+
+      {contributors.length === 0 ? (
+        <div className="rounded-lg border border-border py-16 text-center text-muted">
+          No contributions have been recorded yet.
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-border bg-surface text-xs uppercase tracking-wider text-muted">
+              <tr>
+                <th className="px-4 py-3 font-medium">Name</th>
+                <th className="px-4 py-3 font-medium">Authored</th>
+                <th className="px-4 py-3 font-medium">Reviewed</th>
+                <th className="px-4 py-3 font-medium">Edited</th>
+                <th className="px-4 py-3 font-medium">Articles</th>
+                <th className="px-4 py-3 font-medium">Avg. Confidence</th>
+                <th className="px-4 py-3 font-medium">Last Active</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {contributors.map((c) => (
+                <tr key={c.name}>
+                  <td className="px-4 py-3">
+                    <Link href={`/contributors/${encodeURIComponent(c.name)}`} className="font-medium hover:underline">
+                      {c.name}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 font-mono text-xs">{c.authored}</td>
+                  <td className="px-4 py-3 font-mono text-xs">{c.reviewed}</td>
+                  <td className="px-4 py-3 font-mono text-xs">{c.edited}</td>
+                  <td className="px-4 py-3 font-mono text-xs">{c.articles}</td>
+                  <td className="px-4 py-3 font-mono text-xs">
+                    {c.avg_confidence !== null ? `${c.avg_confidence}%` : "—"}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-muted">
+                    {new Date(c.last_contributed_at).toLocaleDateString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
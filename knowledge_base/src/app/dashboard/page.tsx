@@ -0,0 +1,217 @@
+import Link from "next/link";
+import { getCurrentUser } from "../../../lib/guard";
+import { Bucket, getKcsMetrics, ViewedArticle } from "../../../lib/metrics";
+
+// Review age and cycle time depend on the current date
+export const dynamic = "force-dynamic";
+
+const kcsColors: Record<string, string> = {
+  draft: "#ca8a04",
+  approved: "#2563eb",
+  published: "#16a34a",
+  retired: "#9ca3af",
+};
+
+function Distribution({ title, buckets, note }: { title: string; buckets: Bucket[]; note?: string }) {
+  const largest = Math.max(1, ...buckets.map((b) => b.count));
+  return (
+    <section className="space-y-3">
+      <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">{title}</h2>
+      <div className="space-y-2 rounded-lg border border-border p-5">
+        {buckets.map((b) => (
+          <div key={b.label} className="flex items-center gap-3 text-xs">
+            <span className="w-28 shrink-0 text-muted">{b.label}</span>
+            <div className="h-3 flex-1 overflow-hidden rounded-full bg-border">
+              <div className="h-full bg-accent" style={{ width: `${(b.count / largest) * 100}%` }} />
+            </div>
+            <span className="w-8 text-right font-mono">{b.count}</span>
+          </div>
+        ))}
+        {note && <p className="pt-2 text-xs text-muted">{note}</p>}
+      </div>
+    </section>
+  );
+}
+
+function ViewList({ title, articles }: { title: string; articles: ViewedArticle[] }) {
+  return (
+    <section className="space-y-3">
+      <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">{title}</h2>
+      <div className="divide-y divide-border rounded-lg border border-border">
+        {articles.map((a) => (
+          <Link
+            key={a.id}
+            href={`/scripts/${a.id}`}
+            className="flex items-center justify-between gap-4 px-5 py-3 text-sm transition-colors hover:bg-surface"
+          >
+            <span className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{a.name}</span>
+              <span
+                className="rounded-full px-1.5 py-0.5 text-[10px] font-medium text-white"
+                style={{ backgroundColor: kcsColors[a.kcs_state] || kcsColors.draft }}
+              >
+                {a.kcs_state}
+              </span>
+              <span className="text-xs text-muted">{a.category_name}</span>
+            </span>
+            <span className="shrink-0 font-mono text-xs text-muted">{a.view_count} views</span>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function days(value: number | null): string {
+  return value === null ? "—" : `${value} d`;
+}
+
+export default async function DashboardPage() {
+  const metrics = getKcsMetrics(await getCurrentUser());
+  const { cycleTime } = metrics;
+
+  const stats: { label: string; value: number; color?: string }[] = [
+    { label: "Articles", value: metrics.total },
+    ...(Object.entries(metrics.byState) as [string, number][]).map(([state, count]) => ({
+      label: state.charAt(0).toUpperCase() + state.slice(1),
+      value: count,
+      color: kcsColors[state],
+    })),
+  ];
+
+  return (
+    <div className="space-y-10">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">KCS Dashboard</h1>
+        <p className="text-muted">
+          Health of the knowledge base: where articles are in their lifecycle, how much they are
+          trusted, how recently they were reviewed and how long it takes to publish them.
+        </p>
+        <p className="text-xs text-muted">
+          Generated {new Date(metrics.generatedAt).toLocaleString()} &middot;{" "}
+          <a href="/api/stats/kcs" className="hover:text-foreground">
+            JSON
+          </a>
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+        {stats.map((s) => (
+          <div key={s.label} className="rounded-lg border border-border p-5">
+            <div className="text-2xl font-bold" style={s.color ? { color: s.color } : undefined}>
+              {s.value}
+            </div>
+            <div className="mt-1 text-sm text-muted">{s.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Draft to published cycle time */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+          Draft → Published Cycle Time
+        </h2>
+        {cycleTime.samples === 0 ? (
+          <p className="text-sm text-muted">No article has been published from draft yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+            {[
+              { label: "Median", value: days(cycleTime.medianDays) },
+              { label: "Average", value: days(cycleTime.averageDays) },
+              { label: "Fastest", value: days(cycleTime.fastestDays) },
+              { label: "Slowest", value: days(cycleTime.slowestDays) },
+            ].map((s) => (
+              <div key={s.label} className="rounded-lg border border-border p-5">
+                <div className="text-2xl font-bold">{s.value}</div>
+                <div className="mt-1 text-sm text-muted">{s.label}</div>
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-muted">
+          Based on {cycleTime.samples} publication{cycleTime.samples === 1 ? "" : "s"} recorded in the state history.
+        </p>
+      </section>
+
+      <div className="grid gap-8 md:grid-cols-2">
+        <Distribution
+          title="Confidence"
+          buckets={metrics.confidence.distribution}
+          note={metrics.confidence.average !== null ? `Average ${metrics.confidence.average}%` : undefined}
+        />
+        <Distribution
+          title="Time Since Last Review"
+          buckets={metrics.reviewAge.distribution}
+          note={`Average ${days(metrics.reviewAge.averageDays)} · ${metrics.reviewAge.neverReviewed} never reviewed`}
+        />
+      </div>
+
+      {/* Per-category breakdown */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">By Category</h2>
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-border bg-surface text-xs uppercase tracking-wider text-muted">
+              <tr>
+                <th className="px-4 py-3 font-medium">Category</th>
+                <th className="px-4 py-3 font-medium">Total</th>
+                <th className="px-4 py-3 font-medium">Draft</th>
+                <th className="px-4 py-3 font-medium">Approved</th>
+                <th className="px-4 py-3 font-medium">Published</th>
+                <th className="px-4 py-3 font-medium">Retired</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {metrics.byCategory.map((c) => (
+                <tr key={c.slug}>
+                  <td className="px-4 py-3">
+                    <Link href={`/categories/${c.slug}`} className="font-medium hover:underline">
+                      {c.name}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 font-mono text-xs">{c.total}</td>
+                  <td className="px-4 py-3 font-mono text-xs">{c.draft}</td>
+                  <td className="px-4 py-3 font-mono text-xs">{c.approved}</td>
+                  <td className={`px-4 py-3 font-mono text-xs ${c.published === 0 ? "text-red-600" : ""}`}>
+                    {c.published}
+                  </td>
+                  <td className="px-4 py-3 font-mono text-xs">{c.retired}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {/* Coverage gaps */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+          Categories Without Published Content
+        </h2>
+        {metrics.unpublishedCategories.length === 0 ? (
+          <p className="text-sm text-muted">Every category has at least one published article.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {metrics.unpublishedCategories.map((c) => (
+              <Link
+                key={c.slug}
+                href={`/categories/${c.slug}`}
+                className="rounded-full bg-badge-bg px-3 py-1 text-xs font-medium text-badge-text transition-opacity hover:opacity-80"
+              >
+                {c.name}
+                <span className="ml-1 text-muted">
+                  ({c.total === 0 ? "no articles" : `${c.total} unpublished`})
+                </span>
+              </Link>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <div className="grid gap-8 md:grid-cols-2">
+        <ViewList title="Most Viewed" articles={metrics.mostViewed} />
+        <ViewList title="Least Viewed" articles={metrics.leastViewed} />
+      </div>
+    </div>
+  );
+}
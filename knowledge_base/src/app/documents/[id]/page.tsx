@@ -0,0 +1,89 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import {
+  getDocumentById,
+  getAllDocuments,
+  getAllScripts,
+  getScriptsForDocument,
+} from "../../../../lib/db";
+import { getCurrentUser } from "../../../../lib/guard";
+import { resolveRepoLink } from "../../../../lib/documents";
+import { renderMarkdown } from "../../../../lib/markdown";
+
+export default async function DocumentPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const viewer = await getCurrentUser();
+  const doc = getDocumentById(Number(id), viewer);
+  if (!doc) notFound();
+
+  const scripts = getAllScripts(viewer);
+  const mentioned = getScriptsForDocument(doc.id, viewer);
+
+  // Relative links between repo files point at the KB pages for those files instead
+  const pages = new Map<string, string>([
+    ...getAllDocuments(viewer).map((d) => [d.file_path, `/documents/${d.id}`] as [string, string]),
+    ...scripts.map((s) => [s.file_path, `/scripts/${s.id}`] as [string, string]),
+  ]);
+  const html = renderMarkdown(doc.content, {
+    resolveLink: (href) => resolveRepoLink(doc.file_path, href, pages),
+    mentions: new Map(mentioned.map((s) => [s.name, `/scripts/${s.id}`])),
+  });
+
+  return (
+    <div className="space-y-8">
+      {/* Breadcrumb */}
+      <nav className="flex items-center gap-2 text-sm text-muted">
+        <Link href="/documents" className="hover:text-foreground">
+          Documentation
+        </Link>
+        {doc.section && (
+          <>
+            <span>/</span>
+            <span>{doc.section}</span>
+          </>
+        )}
+        <span>/</span>
+        <span className="text-foreground">{doc.title}</span>
+      </nav>
+
+      <div className="grid gap-10 lg:grid-cols-[1fr_16rem]">
+        <article className="markdown min-w-0" dangerouslySetInnerHTML={{ __html: html }} />
+
+        <aside className="space-y-6 lg:sticky lg:top-24 lg:self-start">
+          <section className="space-y-2">
+            <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+              Source
+            </h2>
+            <div className="break-all font-mono text-xs text-muted">{doc.file_path}</div>
+            {doc.updated_at && (
+              <div className="text-xs text-muted">
+                Indexed {new Date(doc.updated_at).toLocaleDateString()}
+              </div>
+            )}
+          </section>
+
+          {mentioned.length > 0 && (
+            <section className="space-y-2">
+              <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+                Scripts Mentioned
+              </h2>
+              <ul className="space-y-1 text-sm">
+                {mentioned.map((s) => (
+                  <li key={s.id}>
+                    <Link href={`/scripts/${s.id}`} className="hover:underline">
+                      {s.name}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+}
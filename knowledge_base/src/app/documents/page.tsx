@@ -0,0 +1,51 @@
+import Link from "next/link";
+import { getAllDocuments } from "../../../lib/db";
+import { getCurrentUser } from "../../../lib/guard";
+
+export default async function DocumentsPage() {
+  const documents = getAllDocuments(await getCurrentUser());
+
+  const grouped = documents.reduce(
+    (acc, d) => {
+      const key = d.section || "General";
+      if (!acc[key]) acc[key] = [];
+      acc[key].push(d);
+      return acc;
+    },
+    {} as Record<string, typeof documents>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Documentation</h1>
+        <p className="text-muted">
+          Guides and READMEs from the toolkit repository.
+        </p>
+      </div>
+
+      {Object.entries(grouped).map(([section, docs]) => (
+        <section key={section} className="space-y-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <span className="h-px flex-1 bg-border" />
+            <span className="px-2">{section}</span>
+            <span className="h-px flex-1 bg-border" />
+          </h2>
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {docs.map((d) => (
+              <Link
+                key={d.id}
+                href={`/documents/${d.id}`}
+                className="block px-6 py-4 transition-colors hover:bg-surface"
+              >
+                <div className="font-semibold">{d.title}</div>
+                {d.summary && <p className="mt-1 text-sm text-muted line-clamp-2">{d.summary}</p>}
+                <div className="mt-2 font-mono text-xs text-muted">{d.file_path}</div>
+              </Link>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import "./globals.css";
 import { ThemeProvider } from "../components/ThemeProvider";
 import { ThemeToggle } from "../components/ThemeToggle";
+import { UserMenu } from "../components/UserMenu";
 
 export const metadata: Metadata = {
   title: "Knowledge Base | MS Tools",
@@ -89,6 +90,37 @@ export default function RootLayout({
                 >
                   Categories
                 </a>
+                <a
+                  href="/alerts"
+                  className="text-muted transition-colors hover:text-foreground"
+                >
+                  Alerts
+                </a>
+                <a
+                  href="/documents"
+                  className="text-muted transition-colors hover:text-foreground"
+                >
+                  Docs
+                </a>
+                <a
+                  href="/review"
+                  className="text-muted transition-colors hover:text-foreground"
+                >
+                  Review
+                </a>
+                <a
+                  href="/contributors"
+                  className="text-muted transition-colors hover:text-foreground"
+                >
+                  Contributors
+                </a>
+                <a
+                  href="/dashboard"
+                  className="text-muted transition-colors hover:text-foreground"
+                >
+                  Dashboard
+                </a>
+                <UserMenu />
                 <ThemeToggle />
               </nav>
             </div>
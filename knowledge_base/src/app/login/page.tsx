@@ -0,0 +1,42 @@
+import { isRole, ROLE_LABELS } from "../../../lib/auth";
+import { getCurrentUser } from "../../../lib/guard";
+import { LoginForm } from "../../components/LoginForm";
+
+// Only send people back to pages of this site. Browsers read "/\host" and "/\t/host" as
+// protocol-relative, so resolve the path the way they do and keep it only if it stays here.
+function localPath(next: string | undefined): string {
+  const origin = "http://kb.invalid";
+  if (!next?.startsWith("/")) return "/";
+  try {
+    const url = new URL(next, origin);
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : "/";
+  } catch {
+    return "/";
+  }
+}
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string; role?: string }>;
+}) {
+  const { next, role } = await searchParams;
+  const target = localPath(next);
+  const user = await getCurrentUser();
+
+  return (
+    <div className="mx-auto max-w-sm space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Sign In</h1>
+        <p className="text-muted">Reading is open to everyone. Sign in to edit, review and publish articles.</p>
+      </div>
+      {user && isRole(role) && (
+        <p className="rounded-lg border border-border p-4 text-sm">
+          You are signed in as {user.display_name} ({ROLE_LABELS[user.role]}). That page needs the{" "}
+          {ROLE_LABELS[role]} role; sign in with another account to open it.
+        </p>
+      )}
+      <LoginForm next={target} />
+    </div>
+  );
+}
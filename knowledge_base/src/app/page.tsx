@@ -1,5 +1,6 @@
 import Link from "next/link";
 import { getAllCategories, getStats, getAllDockerComponents } from "../../lib/db";
+import { getCurrentUser } from "../../lib/guard";
 
 const categoryIcons: Record<string, string> = {
   "01-infrastructure": "M5 12h14M12 5l7 7-7 7",
@@ -12,9 +13,10 @@ const categoryIcons: Record<string, string> = {
   docker: "M21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0z",
 };
 
-export default function Home() {
-  const categories = getAllCategories();
-  const stats = getStats();
+export default async function Home() {
+  const viewer = await getCurrentUser();
+  const categories = getAllCategories(viewer);
+  const stats = getStats(viewer);
   const dockerComponents = getAllDockerComponents();
 
   return (
@@ -132,7 +134,8 @@ export default function Home() {
               <tr className="border-b border-border bg-surface text-left">
                 <th className="px-5 py-3 font-medium">Component</th>
                 <th className="px-5 py-3 font-medium">Type</th>
-                <th className="px-5 py-3 font-medium">Port</th>
+                <th className="px-5 py-3 font-medium">Ports</th>
+                <th className="hidden px-5 py-3 font-medium md:table-cell">Scraped</th>
                 <th className="hidden px-5 py-3 font-medium sm:table-cell">
                   Description
                 </th>
@@ -144,17 +147,37 @@ export default function Home() {
                   key={dc.id}
                   className="border-b border-border last:border-0"
                 >
-                  <td className="px-5 py-3 font-medium">{dc.name}</td>
+                  <td className="px-5 py-3">
+                    <div className="font-medium">{dc.name}</div>
+                    <div className="font-mono text-xs text-muted">
+                      {dc.image ?? dc.location}
+                    </div>
+                    {dc.depends_on.length > 0 && (
+                      <div className="mt-0.5 text-xs text-muted">
+                        Depends on {dc.depends_on.join(", ")}
+                      </div>
+                    )}
+                  </td>
                   <td className="px-5 py-3">
                     <span className="rounded-full bg-badge-bg px-2.5 py-0.5 text-xs font-medium text-badge-text">
                       {dc.component_type}
                     </span>
                   </td>
                   <td className="px-5 py-3 font-mono text-xs">
-                    {dc.port ?? "\u2014"}
+                    {dc.ports.length > 0 ? dc.ports.join(", ") : "\u2014"}
+                  </td>
+                  <td className="hidden px-5 py-3 text-xs md:table-cell">
+                    {dc.scrape_jobs.length > 0
+                      ? dc.scrape_jobs.map((j) => `${j.job} every ${j.interval}`).join(", ")
+                      : "\u2014"}
                   </td>
                   <td className="hidden px-5 py-3 text-muted sm:table-cell">
                     {dc.description}
+                    {dc.volumes.length > 0 && (
+                      <div className="mt-0.5 text-xs" title={dc.volumes.join("\n")}>
+                        {dc.volumes.length} volume{dc.volumes.length !== 1 ? "s" : ""}
+                      </div>
+                    )}
                   </td>
                 </tr>
               ))}
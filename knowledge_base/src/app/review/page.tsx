@@ -0,0 +1,113 @@
+import Link from "next/link";
+import { requirePageRole } from "../../../lib/guard";
+import { getReviewIntervals, getReviewQueue } from "../../../lib/review";
+import { MarkReviewedButton } from "../../components/MarkReviewedButton";
+
+// The queue depends on the current date, so never serve it from a build-time render
+export const dynamic = "force-dynamic";
+
+const kcsColors: Record<string, string> = {
+  draft: "#ca8a04",
+  approved: "#2563eb",
+  published: "#16a34a",
+  retired: "#9ca3af",
+};
+
+export default async function ReviewQueuePage() {
+  const user = await requirePageRole("coach", "/review");
+  const queue = getReviewQueue(user);
+  const intervals = getReviewIntervals();
+  const stateIntervals = intervals.filter((i) => i.scope === "state");
+  const categoryIntervals = intervals.filter((i) => i.scope === "category");
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Review Queue</h1>
+        <p className="text-muted">
+          Articles past their review interval, most viewed and most overdue first. Reviewing an
+          article resets its clock and credits you as a reviewer.
+        </p>
+        <p className="text-xs text-muted">
+          <a href="/api/review" className="hover:text-foreground">
+            JSON
+          </a>
+        </p>
+      </div>
+
+      {/* Review intervals in effect */}
+      <section className="flex flex-wrap gap-2">
+        {stateIntervals.map((i) => (
+          <span
+            key={i.key}
+            className="rounded-full bg-badge-bg px-3 py-1 text-xs font-medium text-badge-text"
+          >
+            {i.key}: every {i.days} days
+          </span>
+        ))}
+        {categoryIntervals.map((i) => (
+          <span
+            key={i.key}
+            className="rounded-full border border-border px-3 py-1 text-xs font-medium text-muted"
+          >
+            {i.key}: at most {i.days} days
+          </span>
+        ))}
+      </section>
+
+      {queue.length === 0 ? (
+        <p className="text-sm text-muted">Every article has been reviewed within its interval.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-border bg-surface text-xs uppercase tracking-wider text-muted">
+              <tr>
+                <th className="px-4 py-3 font-medium">Article</th>
+                <th className="px-4 py-3 font-medium">Last Reviewed</th>
+                <th className="px-4 py-3 font-medium">Interval</th>
+                <th className="px-4 py-3 font-medium">Views</th>
+                <th className="px-4 py-3 font-medium">Priority</th>
+                <th className="px-4 py-3 font-medium" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {queue.map((item) => (
+                <tr key={item.id} className="align-top">
+                  <td className="px-4 py-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Link href={`/scripts/${item.id}`} className="font-medium hover:underline">
+                        {item.name}
+                      </Link>
+                      <span
+                        className="rounded-full px-1.5 py-0.5 text-[10px] font-medium text-white"
+                        style={{ backgroundColor: kcsColors[item.kcs_state] || kcsColors.draft }}
+                      >
+                        {item.kcs_state}
+                      </span>
+                    </div>
+                    <Link
+                      href={`/categories/${item.category_slug}`}
+                      className="text-xs text-muted hover:text-foreground"
+                    >
+                      {item.category_name}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 text-xs">
+                    {item.last_reviewed_at ? new Date(item.last_reviewed_at).toLocaleDateString() : "Never"}
+                    <div className="text-muted">{item.days_since_review} days ago</div>
+                  </td>
+                  <td className="px-4 py-3 text-xs">{item.interval_days} days</td>
+                  <td className="px-4 py-3 font-mono text-xs">{item.view_count}</td>
+                  <td className="px-4 py-3 font-mono text-xs">{item.priority}</td>
+                  <td className="px-4 py-3">
+                    <MarkReviewedButton scriptId={item.id} confidence={item.confidence} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { hasRole } from "../../../../../lib/auth";
+import { getScriptById, isScriptVisible } from "../../../../../lib/db";
+import { getCurrentUser } from "../../../../../lib/guard";
+import { diffSnapshots, getRevisions } from "../../../../../lib/revisions";
+import { RestoreRevisionButton } from "../../../../components/RestoreRevisionButton";
+
+export const dynamic = "force-dynamic";
+
+export default async function ScriptHistoryPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  const { id } = await params;
+  const user = await getCurrentUser();
+  const script = getScriptById(Number(id));
+  if (!script || !isScriptVisible(script.id, user)) notFound();
+  const canRestore = hasRole(user, "coach");
+
+  const revisions = getRevisions(script.id);
+  const query = await searchParams;
+  // Default to the latest change: the newest revision against the one before it
+  const to = revisions.find((r) => r.revision === Number(query.to)) ?? revisions[0];
+  const from =
+    revisions.find((r) => r.revision === Number(query.from)) ??
+    revisions.find((r) => to && r.revision < to.revision);
+  const changes = from && to ? diffSnapshots(from.snapshot, to.snapshot) : [];
+
+  const selectClass =
+    "rounded-md border border-border bg-background px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-accent";
+
+  return (
+    <div className="space-y-8">
+      {/* Breadcrumb */}
+      <nav className="flex items-center gap-2 text-sm text-muted">
+        <Link href="/categories" className="hover:text-foreground">
+          Categories
+        </Link>
+        <span>/</span>
+        <Link
+          href={`/categories/${script.category_slug}`}
+          className="hover:text-foreground"
+        >
+          {script.category_name}
+        </Link>
+        <span>/</span>
+        <Link href={`/scripts/${script.id}`} className="hover:text-foreground">
+          {script.name}
+        </Link>
+        <span>/</span>
+        <span className="text-foreground">History</span>
+      </nav>
+
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">{script.name}</h1>
+        <p className="mt-1 text-sm text-muted">
+          {revisions.length} revision{revisions.length !== 1 && "s"}. Every change to the article, its
+          parameters or tags is kept; restoring a revision adds a new one.
+        </p>
+      </div>
+
+      {/* Compare two revisions */}
+      {revisions.length > 1 && (
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+            Compare
+          </h2>
+          <form className="flex flex-wrap items-center gap-2 text-sm">
+            <select name="from" defaultValue={from?.revision} className={selectClass}>
+              {revisions.map((r) => (
+                <option key={r.revision} value={r.revision}>
+                  r{r.revision} &middot; {r.actor}
+                </option>
+              ))}
+            </select>
+            <span className="text-muted">→</span>
+            <select name="to" defaultValue={to?.revision} className={selectClass}>
+              {revisions.map((r) => (
+                <option key={r.revision} value={r.revision}>
+                  r{r.revision} &middot; {r.actor}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="rounded-md bg-accent px-3 py-1 text-xs font-medium text-background hover:bg-accent-hover"
+            >
+              Compare
+            </button>
+          </form>
+
+          {from && to && (
+            <div className="overflow-x-auto rounded-lg border border-border">
+              <table className="w-full text-left text-sm">
+                <thead className="border-b border-border bg-surface text-xs uppercase tracking-wider text-muted">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">Field</th>
+                    <th className="px-4 py-2 font-medium">r{from.revision}</th>
+                    <th className="px-4 py-2 font-medium">r{to.revision}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {changes.length === 0 && (
+                    <tr>
+                      <td colSpan={3} className="px-4 py-3 text-muted">
+                        No differences.
+                      </td>
+                    </tr>
+                  )}
+                  {changes.map((c) => (
+                    <tr key={c.field} className="align-top">
+                      <td className="px-4 py-2 font-mono text-xs">{c.field}</td>
+                      <td className="whitespace-pre-wrap px-4 py-2 text-xs text-red-600">
+                        {c.before ?? <span className="italic text-muted">empty</span>}
+                      </td>
+                      <td className="whitespace-pre-wrap px-4 py-2 text-xs text-green-600">
+                        {c.after ?? <span className="italic text-muted">empty</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      )}
+
+      {/* All revisions, newest first */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+          Revisions
+        </h2>
+        <div className="divide-y divide-border rounded-lg border border-border">
+          {revisions.map((r, i) => (
+            <div key={r.id} className="flex flex-wrap items-center justify-between gap-3 px-5 py-3 text-sm">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="font-mono text-xs font-semibold">r{r.revision}</span>
+                <span>{r.actor}</span>
+                <span className="text-xs text-muted">{new Date(r.created_at).toLocaleString()}</span>
+                {i === 0 && (
+                  <span className="rounded-full bg-badge-bg px-3 py-1 text-xs font-medium text-badge-text">
+                    current
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                {i < revisions.length - 1 && (
+                  <Link
+                    href={`/scripts/${script.id}/history?from=${revisions[i + 1].revision}&to=${r.revision}`}
+                    className="rounded-md border border-border px-2 py-1 text-xs text-muted transition-colors hover:bg-surface hover:text-foreground"
+                  >
+                    Changes
+                  </Link>
+                )}
+                {i > 0 && canRestore && <RestoreRevisionButton scriptId={script.id} revision={r.revision} />}
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -4,10 +4,44 @@ import {
   getScriptById,
   getParametersForScript,
   getTagsForScript,
+  getExamplesForScript,
+  getAlertRulesForScript,
+  getDocumentsForScript,
+  getModulesForScript,
+  getScriptCalls,
+  getRelatedScripts,
+  isScriptVisible,
+  RelatedScript,
   getContributorsForScript,
+  getCommitsForScript,
   getScriptJsonLd,
+  getAllScripts,
+  getDb,
+  getReplacement,
+  getSupersededScripts,
   incrementViewCount,
+  REUSE_WINDOW_DAYS,
+  serializeJsonLd,
 } from "../../../../lib/db";
+import { CommentNode, getThreads } from "../../../../lib/comments";
+import { findDuplicatesOf } from "../../../../lib/duplicates";
+import { getFeedbackSummary, getOpenFlags, isFlagOwner } from "../../../../lib/feedback";
+import { getReuseCounts, getReuseEvents } from "../../../../lib/reuse";
+import { KCS_TRANSITIONS, TRANSITION_ROLES, getStateHistory, missingContent, transitionRole } from "../../../../lib/kcs";
+import { hasRole, Role, ROLE_LABELS } from "../../../../lib/auth";
+import { getCurrentUser } from "../../../../lib/guard";
+import { getGroups, getScriptRestrictions } from "../../../../lib/visibility";
+import { CopyButton } from "../../../components/CopyButton";
+import { TransitionForm } from "../../../components/TransitionForm";
+import { ReplacementForm } from "../../../components/ReplacementForm";
+import { ScriptEditForm } from "../../../components/ScriptEditForm";
+import { MarkReviewedButton } from "../../../components/MarkReviewedButton";
+import { FeedbackWidget } from "../../../components/FeedbackWidget";
+import { ResolveFlagButton } from "../../../components/ResolveFlagButton";
+import { ReuseForm } from "../../../components/ReuseForm";
+import { GroupChecklist } from "../../../components/GroupChecklist";
+import { CommentForm } from "../../../components/CommentForm";
+import { ThreadStatusButton } from "../../../components/ThreadStatusButton";
 
 const kcsStateColors: Record<string, string> = {
   draft: "var(--color-kcs-draft)",
@@ -16,6 +50,18 @@ const kcsStateColors: Record<string, string> = {
   retired: "var(--color-kcs-retired)",
 };
 
+const severityColors: Record<string, string> = {
+  critical: "#dc2626",
+  warning: "#ca8a04",
+  info: "#2563eb",
+};
+
+const feedbackLabels: Record<string, string> = {
+  solved: "Solved",
+  partial: "Partially helped",
+  not_helpful: "Didn't help",
+};
+
 function ConfidenceBar({ value }: { value: number }) {
   const color =
     value >= 80
@@ -36,14 +82,63 @@ function ConfidenceBar({ value }: { value: number }) {
   );
 }
 
+function SignInHint({ scriptId, role, action }: { scriptId: number; role: Role; action: string }) {
+  return (
+    <p className="text-xs text-muted">
+      <Link href={`/login?next=/scripts/${scriptId}`} className="underline hover:text-foreground">
+        Sign in
+      </Link>{" "}
+      as a {ROLE_LABELS[role]} to {action}.
+    </p>
+  );
+}
+
+function CommentItem({ comment, scriptId, canReply }: { comment: CommentNode; scriptId: number; canReply: boolean }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted">
+        <span className="font-medium text-foreground">{comment.author}</span>
+        <span>{new Date(comment.created_at).toLocaleString()}</span>
+      </div>
+      <div className="markdown text-sm" dangerouslySetInnerHTML={{ __html: comment.html }} />
+      {canReply && <CommentForm scriptId={scriptId} parentId={comment.id} />}
+      {comment.replies.length > 0 && (
+        <div className="space-y-4 border-l border-border pl-4 pt-2">
+          {comment.replies.map((r) => (
+            <CommentItem key={r.id} comment={r} scriptId={scriptId} canReply={canReply} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ScriptLinks({ scripts, empty }: { scripts: RelatedScript[]; empty: string }) {
+  if (scripts.length === 0) return <p className="text-xs text-muted">{empty}</p>;
+  return (
+    <ul className="space-y-1.5">
+      {scripts.map((s) => (
+        <li key={s.id} className="flex items-baseline justify-between gap-2 text-sm">
+          <Link href={`/scripts/${s.id}`} className="truncate font-medium hover:underline">
+            {s.name}
+          </Link>
+          <span className="shrink-0 text-[10px] text-muted">{s.relation}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 export default async function ScriptDetailPage({
   params,
 }: {
   params: Promise<{ id: string }>;
 }) {
   const { id } = await params;
+  const user = await getCurrentUser();
   const script = getScriptById(Number(id));
-  if (!script) notFound();
+  // Restricted articles look the same as missing ones to people outside their groups
+  if (!script || !isScriptVisible(script.id, user)) notFound();
 
   // KCS: track article views
   incrementViewCount(script.id);
@@ -51,14 +146,55 @@ export default async function ScriptDetailPage({
   const parameters = getParametersForScript(script.id);
   const tags = getTagsForScript(script.id);
   const contributors = getContributorsForScript(script.id);
-  const jsonLd = getScriptJsonLd(script, parameters, tags);
+  const commits = getCommitsForScript(script.id);
+  const stateHistory = getStateHistory(script.id);
+  const feedback = getFeedbackSummary(script.id);
+  const openFlags = isFlagOwner(script.id, user) ? getOpenFlags(script.id) : [];
+  const reuse = getReuseCounts(script.id);
+  const reuseEvents = getReuseEvents(script.id, 5);
+  const ratings = feedback.solved + feedback.partial + feedback.not_helpful;
+  // Only offer the moves the signed-in user's role allows
+  const nextStates = KCS_TRANSITIONS[script.kcs_state].filter((s) =>
+    hasRole(user, transitionRole(script.kcs_state, s))
+  );
+  const nextStateProblems = Object.fromEntries(
+    nextStates.map((s) => [s, missingContent(script, s)])
+  );
+  const examples = getExamplesForScript(script.id);
+  const alertRules = getAlertRulesForScript(script.id);
+  const documents = getDocumentsForScript(script.id, user);
+  const modules = getModulesForScript(script.id);
+  const requires = getScriptCalls(script.id, "requires", user);
+  const usedBy = getScriptCalls(script.id, "usedBy", user);
+  const related = getRelatedScripts(script.id, user);
+  const replacedBy = getReplacement(script, user);
+  const replaces = getSupersededScripts(script.id, user);
+  const jsonLd = getScriptJsonLd(script, parameters, tags, examples, alertRules, replacedBy, replaces);
+  const canReplace = hasRole(user, TRANSITION_ROLES.retired);
+  // Live articles a retired one can point readers at
+  const replacementOptions = canReplace
+    ? getAllScripts(user)
+        .filter((s) => s.id !== script.id && s.kcs_state !== "retired")
+        .map((s) => ({ id: s.id, name: s.name }))
+    : [];
+  const parameterSets = [...new Set(parameters.flatMap((p) => p.parameter_sets))];
+  const restrictions = getScriptRestrictions(script.id);
+  const restrictedTo = [...new Set([...restrictions.category, ...restrictions.article.map((g) => g.name)])];
+  const canRestrict = hasRole(user, "publisher");
+  const threads = getThreads(script.id, user);
+  const openThreads = threads.filter((t) => !t.resolved_at).length;
+  // Coaches decide whether overlapping articles should be merged
+  const duplicates =
+    hasRole(user, "coach") && script.kcs_state !== "retired"
+      ? findDuplicatesOf(getDb(), script.id).filter((d) => isScriptVisible(d.id, user))
+      : [];
 
   return (
     <div className="space-y-10">
       {/* JSON-LD structured data for this script */}
       <script
         type="application/ld+json"
-        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(jsonLd) }}
       />
 
       {/* Breadcrumb */}
@@ -77,6 +213,34 @@ export default async function ScriptDetailPage({
         <span className="text-foreground">{script.name}</span>
       </nav>
 
+      {/* Retired: point readers at the replacement */}
+      {script.kcs_state === "retired" && (
+        <div
+          className="space-y-2 rounded-lg border-2 bg-surface p-5"
+          style={{ borderColor: kcsStateColors.retired }}
+        >
+          <p className="font-semibold">This article is retired and no longer maintained.</p>
+          {replacedBy ? (
+            <p className="text-sm">
+              Use{" "}
+              <Link href={`/scripts/${replacedBy.id}`} className="font-semibold underline">
+                {replacedBy.name}
+              </Link>{" "}
+              instead{script.superseded_reason ? `: ${script.superseded_reason}` : "."}
+            </p>
+          ) : (
+            <p className="text-sm text-muted">No replacement has been named for it.</p>
+          )}
+          {canReplace && (
+            <ReplacementForm
+              scriptId={script.id}
+              current={script.superseded_by}
+              replacements={replacementOptions}
+            />
+          )}
+        </div>
+      )}
+
       {/* Header */}
       <div className="space-y-4">
         <div className="flex flex-wrap items-center gap-3">
@@ -104,6 +268,16 @@ export default async function ScriptDetailPage({
           >
             KCS: {script.kcs_state.charAt(0).toUpperCase() + script.kcs_state.slice(1)}
           </span>
+          {restrictedTo.length > 0 && (
+            <span className="rounded-md border border-red-600 px-2.5 py-1 text-xs font-medium text-red-600">
+              Restricted to {restrictedTo.join(", ")}
+            </span>
+          )}
+          {reuse.recent > 0 && (
+            <span className="rounded-md bg-badge-bg px-2.5 py-1 text-xs font-medium text-badge-text">
+              Reused {reuse.recent} time{reuse.recent !== 1 && "s"} in the last {REUSE_WINDOW_DAYS} days
+            </span>
+          )}
           {script.supports_whatif === 1 && (
             <span className="rounded-md border border-border px-2.5 py-1 text-xs font-medium">
               Supports -WhatIf
@@ -121,6 +295,12 @@ export default async function ScriptDetailPage({
           >
             JSON-LD
           </a>
+          <Link
+            href={`/scripts/${script.id}/history`}
+            className="rounded-md border border-border px-2.5 py-1 text-xs font-medium text-muted transition-colors hover:text-foreground"
+          >
+            History
+          </Link>
         </div>
       </div>
 
@@ -135,14 +315,43 @@ export default async function ScriptDetailPage({
               <span className="text-muted">Confidence</span>
               <ConfidenceBar value={script.confidence} />
             </div>
+            <div className="flex justify-between">
+              <span className="text-muted">
+                With Feedback
+                <span className="ml-1 text-xs">({ratings} rating{ratings !== 1 && "s"})</span>
+              </span>
+              <ConfidenceBar value={feedback.computed_confidence} />
+            </div>
             <div className="flex justify-between">
               <span className="text-muted">Views</span>
               <span className="font-mono text-xs">{script.view_count}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted">Author</span>
-              <span className="text-xs">{script.author || "Unknown"}</span>
+              {script.author && script.author_id ? (
+                <Link href={`/contributors/${encodeURIComponent(script.author)}`} className="text-xs hover:underline">
+                  {script.author}
+                </Link>
+              ) : (
+                <span className="text-xs">{script.author || "Unknown"}</span>
+              )}
             </div>
+            {script.created_at && (
+              <div className="flex justify-between">
+                <span className="text-muted">Created</span>
+                <span className="text-xs">
+                  {new Date(script.created_at).toLocaleDateString()}
+                </span>
+              </div>
+            )}
+            {script.last_modified_at && (
+              <div className="flex justify-between">
+                <span className="text-muted">Last Modified</span>
+                <span className="text-xs">
+                  {new Date(script.last_modified_at).toLocaleDateString()}
+                </span>
+              </div>
+            )}
             {script.last_reviewed_at && (
               <div className="flex justify-between">
                 <span className="text-muted">Last Reviewed</span>
@@ -151,6 +360,11 @@ export default async function ScriptDetailPage({
                 </span>
               </div>
             )}
+            {script.kcs_state !== "retired" && hasRole(user, "coach") && (
+              <div className="flex justify-end pt-1">
+                <MarkReviewedButton scriptId={script.id} confidence={script.confidence} />
+              </div>
+            )}
           </div>
         </div>
 
@@ -187,13 +401,58 @@ export default async function ScriptDetailPage({
         </section>
       )}
 
+      {/* Alerts this script helps diagnose */}
+      {alertRules.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+            Diagnoses Alerts
+          </h2>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {alertRules.map((a) => (
+              <Link
+                key={a.id}
+                href={`/alerts/${encodeURIComponent(a.name)}`}
+                className="rounded-lg border border-border p-4 transition-all hover:border-foreground/20 hover:bg-surface"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm font-semibold">{a.name}</span>
+                  {a.severity && (
+                    <span
+                      className="rounded-full px-1.5 py-0.5 text-[10px] font-medium text-white"
+                      style={{ backgroundColor: severityColors[a.severity] || severityColors.info }}
+                    >
+                      {a.severity}
+                    </span>
+                  )}
+                </div>
+                {a.summary && <p className="mt-1 text-xs text-muted">{a.summary}</p>}
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* File path */}
       <section className="space-y-2">
         <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
           File Path
         </h2>
-        <div className="rounded-lg bg-surface px-5 py-3 font-mono text-sm">
-          {script.file_path}
+        <div className="flex items-center justify-between gap-4 rounded-lg bg-surface px-5 py-3">
+          <span className="font-mono text-sm">{script.file_path}</span>
+          <div className="flex shrink-0 gap-3 text-xs">
+            <Link
+              href={`/scripts/${script.id}/source`}
+              className="text-muted transition-colors hover:text-foreground"
+            >
+              View source
+            </Link>
+            <a
+              href={`/api/scripts/${script.id}/source`}
+              className="text-muted transition-colors hover:text-foreground"
+            >
+              Raw
+            </a>
+          </div>
         </div>
       </section>
 
@@ -203,7 +462,7 @@ export default async function ScriptDetailPage({
           <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
             Description
           </h2>
-          <p className="leading-relaxed">{script.description}</p>
+          <p className="whitespace-pre-line leading-relaxed">{script.description}</p>
         </section>
       )}
 
@@ -213,28 +472,97 @@ export default async function ScriptDetailPage({
           <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
             Parameters
           </h2>
-          <div className="overflow-hidden rounded-lg border border-border">
+          {parameterSets.length > 0 && (
+            <p className="text-sm text-muted">
+              Parameter sets:{" "}
+              {parameterSets.map((set, i) => (
+                <span key={set}>
+                  {i > 0 && ", "}
+                  <code className="rounded bg-badge-bg px-1.5 py-0.5 font-mono text-xs">{set}</code>
+                </span>
+              ))}
+              . Parameters from different sets can&apos;t be combined; those without a set work with
+              all of them.
+            </p>
+          )}
+          <div className="overflow-x-auto rounded-lg border border-border">
             <table className="w-full text-sm">
               <thead>
                 <tr className="border-b border-border bg-surface text-left">
                   <th className="px-5 py-3 font-medium">Name</th>
+                  <th className="px-5 py-3 font-medium">Type</th>
                   <th className="px-5 py-3 font-medium">Description</th>
                   <th className="px-5 py-3 font-medium">Required</th>
                   <th className="px-5 py-3 font-medium">Default</th>
+                  {parameterSets.length > 0 && (
+                    <th className="px-5 py-3 font-medium">Set</th>
+                  )}
                 </tr>
               </thead>
               <tbody>
                 {parameters.map((p) => (
                   <tr
                     key={p.id}
-                    className="border-b border-border last:border-0"
+                    className="border-b border-border last:border-0 align-top"
                   >
                     <td className="px-5 py-3">
                       <code className="rounded bg-badge-bg px-1.5 py-0.5 font-mono text-xs">
                         -{p.name}
                       </code>
+                      {p.aliases.length > 0 && (
+                        <div className="mt-1 text-xs text-muted">
+                          Alias: {p.aliases.map((a) => `-${a}`).join(", ")}
+                        </div>
+                      )}
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {p.position !== null && (
+                          <span className="rounded border border-border px-1.5 py-0.5 text-[10px] font-medium text-muted">
+                            Position {p.position}
+                          </span>
+                        )}
+                        {(p.value_from_pipeline === 1 || p.value_from_pipeline_by_property_name === 1) && (
+                          <span className="rounded border border-border px-1.5 py-0.5 text-[10px] font-medium text-muted">
+                            Pipeline
+                            {p.value_from_pipeline_by_property_name === 1 && !p.value_from_pipeline
+                              ? " (by property name)"
+                              : ""}
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-5 py-3 font-mono text-xs">
+                      {p.type ? `[${p.type}]` : "\u2014"}
+                    </td>
+                    <td className="px-5 py-3 text-muted">
+                      {p.description}
+                      {p.validate_set && p.validate_set.length > 0 && (
+                        <div className="mt-1 text-xs">
+                          Allowed:{" "}
+                          {p.validate_set.map((v, i) => (
+                            <span key={i}>
+                              {i > 0 && ", "}
+                              <code className="font-mono text-foreground">
+                                {v === "" ? '""' : v}
+                              </code>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {p.validate_range_min !== null && p.validate_range_max !== null && (
+                        <div className="mt-1 text-xs">
+                          Range:{" "}
+                          <code className="font-mono text-foreground">
+                            {p.validate_range_min}&ndash;{p.validate_range_max}
+                          </code>
+                        </div>
+                      )}
+                      {p.validate_pattern && (
+                        <div className="mt-1 text-xs">
+                          Pattern:{" "}
+                          <code className="font-mono text-foreground">{p.validate_pattern}</code>
+                        </div>
+                      )}
                     </td>
-                    <td className="px-5 py-3 text-muted">{p.description}</td>
                     <td className="px-5 py-3">
                       {p.is_required ? (
                         <span className="font-semibold text-foreground">
@@ -247,6 +575,11 @@ export default async function ScriptDetailPage({
                     <td className="px-5 py-3 font-mono text-xs">
                       {p.default_value ?? "\u2014"}
                     </td>
+                    {parameterSets.length > 0 && (
+                      <td className="px-5 py-3 text-xs text-muted">
+                        {p.parameter_sets.length > 0 ? p.parameter_sets.join(", ") : "All"}
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
@@ -255,47 +588,407 @@ export default async function ScriptDetailPage({
         </section>
       )}
 
-      {/* Usage example */}
-      <section className="space-y-3">
-        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
-          Quick Usage
-        </h2>
-        <div className="rounded-lg bg-surface px-5 py-4 font-mono text-sm leading-relaxed">
-          <div className="text-muted"># Basic usage</div>
-          <div>
-            ./{script.file_path}
-            {parameters
-              .filter((p) => p.is_required)
-              .map((p) => ` -${p.name} <value>`)
-              .join("")}
+      {/* Usage examples from the script's .EXAMPLE help */}
+      {examples.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+            Usage Examples
+          </h2>
+          <div className="space-y-3">
+            {examples.map((e, i) => (
+              <div key={e.id} className="rounded-lg border border-border">
+                <div className="flex items-start justify-between gap-4 bg-surface px-5 py-4">
+                  <pre className="min-w-0 overflow-x-auto font-mono text-sm leading-relaxed">
+                    {e.command}
+                  </pre>
+                  <CopyButton text={e.command} label={`Copy example ${i + 1}`} />
+                </div>
+                {e.explanation && (
+                  <p className="border-t border-border px-5 py-3 text-sm text-muted">
+                    {e.explanation}
+                  </p>
+                )}
+              </div>
+            ))}
           </div>
-          {script.supports_whatif === 1 && (
-            <>
-              <div className="mt-3 text-muted"># Dry run (safe testing)</div>
-              <div>
-                ./{script.file_path} -WhatIf
-                {parameters
-                  .filter((p) => p.is_required)
-                  .map((p) => ` -${p.name} <value>`)
-                  .join("")}
+          <div className="flex items-center justify-between gap-4 rounded-lg bg-surface px-5 py-3 font-mono text-sm">
+            <span>
+              <span className="text-muted"># Full help: </span>
+              Get-Help ./{script.file_path} -Full
+            </span>
+            <CopyButton text={`Get-Help ./${script.file_path} -Full`} label="Copy Get-Help command" />
+          </div>
+        </section>
+      )}
+
+      {/* Generic usage for scripts without .EXAMPLE help */}
+      {examples.length === 0 && (
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+            Quick Usage
+          </h2>
+          <div className="rounded-lg bg-surface px-5 py-4 font-mono text-sm leading-relaxed">
+            <div className="text-muted"># Basic usage</div>
+            <div>
+              ./{script.file_path}
+              {parameters
+                .filter((p) => p.is_required)
+                .map((p) => ` -${p.name} <value>`)
+                .join("")}
+            </div>
+            {script.supports_whatif === 1 && (
+              <>
+                <div className="mt-3 text-muted"># Dry run (safe testing)</div>
+                <div>
+                  ./{script.file_path} -WhatIf
+                  {parameters
+                    .filter((p) => p.is_required)
+                    .map((p) => ` -${p.name} <value>`)
+                    .join("")}
+                </div>
+              </>
+            )}
+            {script.supports_csv_export === 1 && (
+              <>
+                <div className="mt-3 text-muted"># Export to CSV</div>
+                <div>
+                  ./{script.file_path} -ExportPath &quot;./output.csv&quot;
+                  {parameters
+                    .filter((p) => p.is_required)
+                    .map((p) => ` -${p.name} <value>`)
+                    .join("")}
+                </div>
+              </>
+            )}
+            <div className="mt-3 text-muted"># Full help</div>
+            <div>Get-Help ./{script.file_path} -Full</div>
+          </div>
+        </section>
+      )}
+
+      {/* Dependencies */}
+      {(modules.length > 0 || requires.length > 0 || usedBy.length > 0 || related.length > 0) && (
+        <section className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-3 rounded-lg border border-border p-5">
+            <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+              Requires
+            </h2>
+            {modules.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {modules.map((m) => (
+                  <span
+                    key={m.module_name}
+                    className="rounded border border-border px-1.5 py-0.5 font-mono text-[10px]"
+                    title={m.source === "requires" ? "#Requires -Modules" : "Import-Module"}
+                  >
+                    {m.module_name}
+                  </span>
+                ))}
               </div>
-            </>
-          )}
-          {script.supports_csv_export === 1 && (
-            <>
-              <div className="mt-3 text-muted"># Export to CSV</div>
-              <div>
-                ./{script.file_path} -ExportPath &quot;./output.csv&quot;
-                {parameters
-                  .filter((p) => p.is_required)
-                  .map((p) => ` -${p.name} <value>`)
-                  .join("")}
+            )}
+            <ScriptLinks
+              scripts={requires}
+              empty={modules.length > 0 ? "No other scripts." : "No modules or scripts."}
+            />
+            {requires.length > 0 && (
+              <a
+                href={`/api/scripts/${script.id}/dependencies`}
+                className="block text-xs text-muted transition-colors hover:text-foreground"
+              >
+                Full dependency tree (JSON)
+              </a>
+            )}
+          </div>
+          <div className="space-y-3 rounded-lg border border-border p-5">
+            <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+              Used By
+            </h2>
+            <ScriptLinks scripts={usedBy} empty="No scripts call this one." />
+          </div>
+          <div className="space-y-3 rounded-lg border border-border p-5">
+            <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+              Related Scripts
+            </h2>
+            <ScriptLinks scripts={related} empty="No related scripts." />
+          </div>
+        </section>
+      )}
+
+      {/* Retired articles that point readers here */}
+      {replaces.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+            Replaces
+          </h2>
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {replaces.map((r) => (
+              <Link
+                key={r.id}
+                href={`/scripts/${r.id}`}
+                className="block px-5 py-3 text-sm transition-colors hover:bg-surface"
+              >
+                <span className="font-medium">{r.name}</span>
+                {r.relation && <span className="block text-xs text-muted">{r.relation}</span>}
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Live articles covering much the same ground */}
+      {duplicates.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+            Possible Duplicates
+          </h2>
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {duplicates.map((d) => (
+              <Link
+                key={d.id}
+                href={`/scripts/${d.id}`}
+                className="flex items-center justify-between gap-4 px-5 py-3 text-sm transition-colors hover:bg-surface"
+              >
+                <span className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{d.name}</span>
+                  <span className="text-xs text-muted">{d.category_name}</span>
+                </span>
+                <span className="shrink-0 font-mono text-xs text-muted">{d.score}% similar</span>
+              </Link>
+            ))}
+          </div>
+          <p className="text-xs text-muted">
+            Compared on name, synopsis, tags and parameters &middot;{" "}
+            <Link href="/admin/duplicates" className="hover:text-foreground">
+              All clusters
+            </Link>
+          </p>
+        </section>
+      )}
+
+      {/* Documentation that mentions this script */}
+      {documents.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+            Mentioned In
+          </h2>
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {documents.map((d) => (
+              <Link
+                key={d.id}
+                href={`/documents/${d.id}`}
+                className="flex items-center justify-between gap-4 px-5 py-3 text-sm transition-colors hover:bg-surface"
+              >
+                <span className="font-medium">{d.title}</span>
+                <span className="font-mono text-xs text-muted">{d.file_path}</span>
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Reader flags waiting for the article's owners */}
+      {openFlags.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+            Open Flags ({openFlags.length})
+          </h2>
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {openFlags.map((f) => (
+              <div key={f.id} className="flex flex-wrap items-start justify-between gap-3 px-5 py-3 text-sm">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted">
+                    <span className="rounded-full bg-badge-bg px-2 py-0.5 font-medium text-badge-text">
+                      {feedbackLabels[f.outcome]}
+                    </span>
+                    <span>{f.reader ?? "Anonymous"}</span>
+                    <span>{new Date(f.created_at).toLocaleDateString()}</span>
+                  </div>
+                  {f.comment && <p>{f.comment}</p>}
+                </div>
+                <ResolveFlagButton scriptId={script.id} feedbackId={f.id} />
               </div>
-            </>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Questions and answers about the article; resolved threads stay for reference */}
+      <section id="discussion" className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+          Discussion{openThreads > 0 && ` (${openThreads} open)`}
+        </h2>
+        {threads.length === 0 && <p className="text-sm text-muted">No questions about this article yet.</p>}
+        {threads.map((t) => (
+          <div key={t.id} className="space-y-3 rounded-lg border border-border p-5">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              {t.resolved_at ? (
+                <span className="text-xs text-muted">
+                  Resolved by {t.resolved_by} on {new Date(t.resolved_at).toLocaleDateString()}
+                </span>
+              ) : (
+                <span className="rounded-full bg-badge-bg px-2 py-0.5 text-xs font-medium text-badge-text">
+                  Unresolved
+                </span>
+              )}
+              {user && (t.author_id === user.id || hasRole(user, "contributor")) && (
+                <ThreadStatusButton scriptId={script.id} commentId={t.id} resolved={!!t.resolved_at} />
+              )}
+            </div>
+            <CommentItem comment={t} scriptId={script.id} canReply={!!user} />
+          </div>
+        ))}
+        {user ? (
+          <CommentForm scriptId={script.id} />
+        ) : (
+          <SignInHint scriptId={script.id} role="viewer" action="join the discussion" />
+        )}
+      </section>
+
+      {/* In-app editing of the KCS text, tags and parameter descriptions */}
+      <details className="group rounded-lg border border-border">
+        <summary className="cursor-pointer px-5 py-3 text-sm font-semibold uppercase tracking-wider text-muted hover:text-foreground">
+          Edit Article
+        </summary>
+        <div className="border-t border-border p-5">
+          {hasRole(user, "contributor") ? (
+            <ScriptEditForm
+              scriptId={script.id}
+              version={script.version}
+              fields={{
+                synopsis: script.synopsis ?? "",
+                description: script.description ?? "",
+                environment: script.environment ?? "",
+                resolution: script.resolution ?? "",
+                cause: script.cause ?? "",
+              }}
+              tags={tags.map((t) => t.name)}
+              parameters={parameters.map((p) => ({ name: p.name, description: p.description ?? "" }))}
+            />
+          ) : (
+            <SignInHint scriptId={script.id} role="contributor" action="edit this article" />
           )}
-          <div className="mt-3 text-muted"># Full help</div>
-          <div>Get-Help ./{script.file_path} -Full</div>
         </div>
+      </details>
+
+      {/* KCS lifecycle: state changes and the form to make the next one */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+          Lifecycle
+        </h2>
+        {nextStates.length > 0 ? (
+          <TransitionForm
+            scriptId={script.id}
+            allowed={nextStates}
+            problems={nextStateProblems}
+            replacements={replacementOptions}
+          />
+        ) : (
+          !user && <SignInHint scriptId={script.id} role="contributor" action="change the state of this article" />
+        )}
+        {stateHistory.length > 0 && (
+          <ol className="space-y-3 border-l border-border pl-5">
+            {stateHistory.map((h) => (
+              <li key={h.id} className="relative text-sm">
+                <span
+                  className="absolute -left-[25px] top-1.5 h-2 w-2 rounded-full"
+                  style={{ backgroundColor: kcsStateColors[h.to_state] }}
+                />
+                <div className="font-medium">
+                  {h.from_state ? `${h.from_state} → ${h.to_state}` : h.to_state}
+                </div>
+                <p className="text-muted">{h.reason}</p>
+                <div className="mt-0.5 flex flex-wrap gap-x-3 text-xs text-muted">
+                  <span>{h.actor}</span>
+                  <span>{new Date(h.transitioned_at).toLocaleDateString()}</span>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+
+      {/* Visibility rule of this article, on top of its category's */}
+      {canRestrict && (
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+            Visibility
+          </h2>
+          <p className="text-sm text-muted">
+            {restrictions.category.length > 0
+              ? `The ${script.category_name} category is restricted to ${restrictions.category.join(", ")}. `
+              : ""}
+            Tick groups to restrict this article further; leave all unticked to follow the category.{" "}
+            <Link href="/admin/visibility" className="hover:text-foreground">
+              Manage groups
+            </Link>
+          </p>
+          <GroupChecklist
+            url="/api/admin/visibility"
+            field="groupIds"
+            body={{ scriptId: script.id }}
+            options={getGroups().map((g) => ({ id: g.id, label: g.name }))}
+            selected={restrictions.article.map((g) => g.id)}
+          />
+        </section>
+      )}
+
+      {/* Recent commits touching the script file */}
+      {commits.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+            Recent Changes
+          </h2>
+          <ol className="space-y-3 border-l border-border pl-5">
+            {commits.map((c) => (
+              <li key={c.sha} className="relative text-sm">
+                <span className="absolute -left-[25px] top-1.5 h-2 w-2 rounded-full bg-accent" />
+                <div className="font-medium">{c.subject}</div>
+                <div className="mt-0.5 flex flex-wrap gap-x-3 text-xs text-muted">
+                  <span>{c.author_name}</span>
+                  <span>{new Date(c.committed_at).toLocaleDateString()}</span>
+                  <span className="font-mono">{c.sha.slice(0, 7)}</span>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      {/* KCS reuse: incidents this article was used on */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+          Incident Links
+        </h2>
+        <p className="text-xs text-muted">
+          Linked to {reuse.total} incident{reuse.total !== 1 && "s"}, {reuse.resolved} resolved.
+        </p>
+        {hasRole(user, "contributor") ? (
+          <ReuseForm scriptId={script.id} />
+        ) : (
+          <SignInHint scriptId={script.id} role="contributor" action="link this article to an incident" />
+        )}
+        {reuseEvents.length > 0 && (
+          <ul className="divide-y divide-border rounded-lg border border-border text-sm">
+            {reuseEvents.map((r) => (
+              <li key={r.id} className="flex flex-wrap items-center justify-between gap-3 px-5 py-2">
+                <span className="font-mono text-xs">{r.incident_ref}</span>
+                <span className="flex flex-wrap gap-x-3 text-xs text-muted">
+                  <span>{r.outcome.replace("_", " ")}</span>
+                  <span>{r.user_name}</span>
+                  <span>{new Date(r.created_at).toLocaleDateString()}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Reader feedback */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted">
+          Was This Article Helpful?
+        </h2>
+        <FeedbackWidget scriptId={script.id} signedIn={!!user} />
       </section>
 
       {/* Contributors */}
@@ -306,13 +999,14 @@ export default async function ScriptDetailPage({
           </h2>
           <div className="flex flex-wrap gap-2">
             {contributors.map((c) => (
-              <span
+              <Link
                 key={c.id}
-                className="rounded-full bg-badge-bg px-3 py-1 text-xs font-medium text-badge-text"
+                href={`/contributors/${encodeURIComponent(c.name)}`}
+                className="rounded-full bg-badge-bg px-3 py-1 text-xs font-medium text-badge-text transition-opacity hover:opacity-80"
               >
                 {c.name}
                 <span className="ml-1 text-muted">({c.contribution_type})</span>
-              </span>
+              </Link>
             ))}
           </div>
         </section>
@@ -0,0 +1,117 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getScriptById, isScriptVisible } from "../../../../../lib/db";
+import { getCurrentUser } from "../../../../../lib/guard";
+import { highlightPowerShell, TokenType } from "../../../../../lib/highlight";
+import { readRepoFile, SourceAccessError } from "../../../../../lib/source";
+import { CopyButton } from "../../../../components/CopyButton";
+import { LineHighlighter } from "../../../../components/LineHighlighter";
+
+const tokenClasses: Record<TokenType, string> = {
+  comment: "text-syntax-comment italic",
+  string: "text-syntax-string",
+  variable: "text-syntax-variable",
+  keyword: "text-syntax-keyword font-semibold",
+  command: "text-syntax-command",
+  parameter: "text-syntax-parameter",
+  type: "text-syntax-type",
+  number: "text-syntax-number",
+  text: "",
+};
+
+export default async function ScriptSourcePage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const script = getScriptById(Number(id));
+  if (!script || !isScriptVisible(script.id, await getCurrentUser())) notFound();
+
+  let source: string | null = null;
+  let error: string | null = null;
+  try {
+    source = readRepoFile(script.file_path);
+    if (source === null) error = "The source file no longer exists in the repository.";
+  } catch (err) {
+    if (!(err instanceof SourceAccessError)) throw err;
+    error = err.message;
+  }
+
+  const lines = source !== null ? highlightPowerShell(source) : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb */}
+      <nav className="flex items-center gap-2 text-sm text-muted">
+        <Link href="/categories" className="hover:text-foreground">
+          Categories
+        </Link>
+        <span>/</span>
+        <Link
+          href={`/categories/${script.category_slug}`}
+          className="hover:text-foreground"
+        >
+          {script.category_name}
+        </Link>
+        <span>/</span>
+        <Link href={`/scripts/${script.id}`} className="hover:text-foreground">
+          {script.name}
+        </Link>
+        <span>/</span>
+        <span className="text-foreground">Source</span>
+      </nav>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">{script.name}</h1>
+          <div className="mt-1 font-mono text-sm text-muted">{script.file_path}</div>
+        </div>
+        {source !== null && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted">{lines.length} lines</span>
+            <CopyButton text={source} label="Copy source" />
+            <a
+              href={`/api/scripts/${script.id}/source`}
+              className="flex h-7 items-center rounded-md border border-border px-2 text-xs text-muted transition-colors hover:bg-surface hover:text-foreground"
+            >
+              Raw
+            </a>
+          </div>
+        )}
+      </div>
+
+      {error ? (
+        <div className="rounded-lg border border-border py-16 text-center text-muted">{error}</div>
+      ) : (
+        <div id="source" className="overflow-x-auto rounded-lg border border-border bg-surface">
+          <LineHighlighter containerId="source" lineCount={lines.length} />
+          <table className="w-full border-collapse font-mono text-xs leading-5">
+            <tbody>
+              {lines.map((tokens, i) => (
+                <tr key={i} id={`L${i + 1}`} className="source-line">
+                  <td className="w-12 select-none border-r border-border px-3 text-right align-top text-muted">
+                    <a href={`#L${i + 1}`} data-line={i + 1} className="hover:text-foreground">
+                      {i + 1}
+                    </a>
+                  </td>
+                  <td className="whitespace-pre px-4">
+                    {tokens.map((t, j) =>
+                      t.type === "text" ? (
+                        t.text
+                      ) : (
+                        <span key={j} className={tokenClasses[t.type]}>
+                          {t.text}
+                        </span>
+                      )
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
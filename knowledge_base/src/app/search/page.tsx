@@ -3,7 +3,8 @@
 import { useEffect, useState, useCallback } from "react";
 import Link from "next/link";
 
-interface Script {
+interface ScriptResult {
+  kind: "script";
   id: number;
   name: string;
   file_path: string;
@@ -17,6 +18,18 @@ interface Script {
   confidence: number;
 }
 
+interface DocumentResult {
+  kind: "document";
+  id: number;
+  file_path: string;
+  title: string;
+  section: string | null;
+  summary: string | null;
+  snippet: string | null;
+}
+
+type Result = ScriptResult | DocumentResult;
+
 const kcsColors: Record<string, string> = {
   draft: "#ca8a04",
   approved: "#2563eb",
@@ -26,14 +39,15 @@ const kcsColors: Record<string, string> = {
 
 export default function SearchPage() {
   const [query, setQuery] = useState("");
-  const [results, setResults] = useState<Script[]>([]);
+  const [includeRetired, setIncludeRetired] = useState(false);
+  const [results, setResults] = useState<Result[]>([]);
   const [loading, setLoading] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
 
-  const search = useCallback(async (q: string) => {
+  const search = useCallback(async (q: string, retired: boolean) => {
     setLoading(true);
     try {
-      const res = await fetch(`/api/search?q=${encodeURIComponent(q)}`);
+      const res = await fetch(`/api/search?q=${encodeURIComponent(q)}${retired ? "&retired=1" : ""}`);
       const data = await res.json();
       setResults(data);
     } finally {
@@ -44,17 +58,17 @@ export default function SearchPage() {
 
   useEffect(() => {
     const timer = setTimeout(() => {
-      search(query);
+      search(query, includeRetired);
     }, 200);
     return () => clearTimeout(timer);
-  }, [query, search]);
+  }, [query, includeRetired, search]);
 
   return (
     <div className="space-y-8">
       <div className="space-y-2">
         <h1 className="text-3xl font-bold tracking-tight">Search</h1>
         <p className="text-muted">
-          Search across all scripts, parameters, and descriptions.
+          Search across all scripts, usage examples, and documentation.
         </p>
       </div>
 
@@ -77,12 +91,22 @@ export default function SearchPage() {
           type="text"
           value={query}
           onChange={(e) => setQuery(e.target.value)}
-          placeholder="Search scripts, parameters, categories..."
+          placeholder="Search scripts, guides, categories..."
           autoFocus
           className="w-full rounded-lg border border-border bg-surface py-3.5 pl-12 pr-4 text-foreground placeholder:text-muted focus:border-foreground/30 focus:outline-none focus:ring-1 focus:ring-foreground/10"
         />
       </div>
 
+      <label className="flex items-center gap-2 text-sm text-muted">
+        <input
+          type="checkbox"
+          checked={includeRetired}
+          onChange={(e) => setIncludeRetired(e.target.checked)}
+          className="accent-accent"
+        />
+        Include retired articles
+      </label>
+
       {loading ? (
         <div className="py-12 text-center text-muted">Searching...</div>
       ) : (
@@ -94,70 +118,99 @@ export default function SearchPage() {
 
           {results.length === 0 && hasSearched ? (
             <div className="rounded-lg border border-border py-16 text-center text-muted">
-              No scripts found. Try a different search term.
+              Nothing found. Try a different search term.
             </div>
           ) : (
             <div className="divide-y divide-border rounded-lg border border-border">
-              {results.map((script) => (
-                <Link
-                  key={script.id}
-                  href={`/scripts/${script.id}`}
-                  className="flex items-start gap-4 px-5 py-4 transition-colors hover:bg-surface"
-                >
-                  <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-md bg-accent text-xs font-bold text-background">
-                    PS
-                  </div>
-                  <div className="min-w-0 flex-1">
-                    <div className="flex flex-wrap items-center gap-2">
-                      <span className="font-semibold">{script.name}</span>
-                      <span className="rounded-full bg-badge-bg px-2 py-0.5 text-xs text-badge-text">
-                        {script.category_name}
-                      </span>
-                      {script.subcategory && (
+              {results.map((result) =>
+                result.kind === "document" ? (
+                  <Link
+                    key={`doc-${result.id}`}
+                    href={`/documents/${result.id}`}
+                    className="flex items-start gap-4 px-5 py-4 transition-colors hover:bg-surface"
+                  >
+                    <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-md border border-border text-xs font-bold text-muted">
+                      MD
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold">{result.title}</span>
                         <span className="rounded-full bg-badge-bg px-2 py-0.5 text-xs text-badge-text">
-                          {script.subcategory}
+                          Guide
                         </span>
-                      )}
-                      {script.kcs_state && (
-                        <span
-                          className="rounded-full px-2 py-0.5 text-[10px] font-medium text-white"
-                          style={{ backgroundColor: kcsColors[script.kcs_state] || kcsColors.draft }}
-                        >
-                          {script.kcs_state}
-                        </span>
-                      )}
+                        {result.section && (
+                          <span className="rounded-full bg-badge-bg px-2 py-0.5 text-xs text-badge-text">
+                            {result.section}
+                          </span>
+                        )}
+                      </div>
+                      <p className="mt-1 text-sm text-muted line-clamp-2">
+                        {result.snippet ?? result.summary}
+                      </p>
+                      <div className="mt-2 font-mono text-xs text-muted">{result.file_path}</div>
                     </div>
-                    <p className="mt-1 text-sm text-muted line-clamp-2">
-                      {script.synopsis}
-                    </p>
-                    <div className="mt-2 flex gap-2">
-                      {script.supports_whatif === 1 && (
-                        <span className="rounded border border-border px-1.5 py-0.5 text-[10px] font-medium text-muted">
-                          WhatIf
-                        </span>
-                      )}
-                      {script.supports_csv_export === 1 && (
-                        <span className="rounded border border-border px-1.5 py-0.5 text-[10px] font-medium text-muted">
-                          CSV Export
+                  </Link>
+                ) : (
+                  <Link
+                    key={`script-${result.id}`}
+                    href={`/scripts/${result.id}`}
+                    className="flex items-start gap-4 px-5 py-4 transition-colors hover:bg-surface"
+                  >
+                    <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-md bg-accent text-xs font-bold text-background">
+                      PS
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold">{result.name}</span>
+                        <span className="rounded-full bg-badge-bg px-2 py-0.5 text-xs text-badge-text">
+                          {result.category_name}
                         </span>
-                      )}
+                        {result.subcategory && (
+                          <span className="rounded-full bg-badge-bg px-2 py-0.5 text-xs text-badge-text">
+                            {result.subcategory}
+                          </span>
+                        )}
+                        {result.kcs_state && (
+                          <span
+                            className="rounded-full px-2 py-0.5 text-[10px] font-medium text-white"
+                            style={{ backgroundColor: kcsColors[result.kcs_state] || kcsColors.draft }}
+                          >
+                            {result.kcs_state}
+                          </span>
+                        )}
+                      </div>
+                      <p className="mt-1 text-sm text-muted line-clamp-2">
+                        {result.synopsis}
+                      </p>
+                      <div className="mt-2 flex gap-2">
+                        {result.supports_whatif === 1 && (
+                          <span className="rounded border border-border px-1.5 py-0.5 text-[10px] font-medium text-muted">
+                            WhatIf
+                          </span>
+                        )}
+                        {result.supports_csv_export === 1 && (
+                          <span className="rounded border border-border px-1.5 py-0.5 text-[10px] font-medium text-muted">
+                            CSV Export
+                          </span>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                  <svg
-                    className="mt-1 shrink-0 text-muted"
-                    width="16"
-                    height="16"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    viewBox="0 0 24 24"
-                  >
-                    <path d="m9 18 6-6-6-6" />
-                  </svg>
-                </Link>
-              ))}
+                    <svg
+                      className="mt-1 shrink-0 text-muted"
+                      width="16"
+                      height="16"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      viewBox="0 0 24 24"
+                    >
+                      <path d="m9 18 6-6-6-6" />
+                    </svg>
+                  </Link>
+                )
+              )}
             </div>
           )}
         </div>
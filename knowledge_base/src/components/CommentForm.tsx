@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+// Starts a thread, or with `parentId` answers a comment in one; replies stay folded behind a button
+export function CommentForm({ scriptId, parentId }: { scriptId: number; parentId?: number }) {
+  const router = useRouter();
+  const [open, setOpen] = useState(parentId === undefined);
+  const [body, setBody] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/scripts/${scriptId}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body, parentId }),
+      });
+      if (!res.ok) {
+        const data = (await res.json().catch(() => ({}))) as { error?: string };
+        setError(data.error ?? `Request failed (${res.status})`);
+        return;
+      }
+      setBody("");
+      if (parentId !== undefined) setOpen(false);
+      router.refresh();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="rounded-md border border-border px-2 py-1 text-xs text-muted transition-colors hover:bg-surface hover:text-foreground"
+      >
+        Reply
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={parentId === undefined ? 3 : 2}
+        placeholder={parentId === undefined ? "Ask a question or share a tip (Markdown)" : "Write a reply (Markdown)"}
+        className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-accent"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="submit"
+          disabled={busy || !body.trim()}
+          className="rounded-md bg-accent px-3 py-1.5 text-xs font-medium text-background hover:bg-accent-hover disabled:opacity-50"
+        >
+          {busy ? "Posting..." : parentId === undefined ? "Start thread" : "Reply"}
+        </button>
+        {parentId !== undefined && (
+          <button
+            type="button"
+            onClick={() => setOpen(false)}
+            className="rounded-md border border-border px-2 py-1 text-xs text-muted transition-colors hover:bg-surface hover:text-foreground"
+          >
+            Cancel
+          </button>
+        )}
+        <span className="text-xs text-muted">Article names become links.</span>
+        {error && <span className="text-xs text-red-600">{error}</span>}
+      </div>
+    </form>
+  );
+}
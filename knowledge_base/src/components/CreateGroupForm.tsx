@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export function CreateGroupForm() {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/groups", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, description }),
+      });
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        setError(body.error ?? `Request failed (${res.status})`);
+        return;
+      }
+      setName("");
+      setDescription("");
+      router.refresh();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const inputClass =
+    "rounded-md border border-border bg-background px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-accent";
+
+  return (
+    <form onSubmit={submit} className="flex flex-wrap items-center gap-2">
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Group name"
+        required
+        className={`w-40 ${inputClass}`}
+      />
+      <input
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Who belongs in it"
+        className={`w-72 ${inputClass}`}
+      />
+      <button
+        type="submit"
+        disabled={busy}
+        className="rounded-md bg-accent px-3 py-1.5 text-xs font-medium text-background hover:bg-accent-hover disabled:opacity-50"
+      >
+        {busy ? "Creating..." : "Create group"}
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </form>
+  );
+}
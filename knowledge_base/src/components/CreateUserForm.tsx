@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+const ROLES = [
+  { value: "viewer", label: "Viewer" },
+  { value: "contributor", label: "Contributor" },
+  { value: "coach", label: "KCS Coach" },
+  { value: "publisher", label: "Publisher" },
+];
+
+export function CreateUserForm() {
+  const router = useRouter();
+  const [username, setUsername] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState("contributor");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, displayName, password, role }),
+      });
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        setError(body.error ?? `Request failed (${res.status})`);
+        return;
+      }
+      setUsername("");
+      setDisplayName("");
+      setPassword("");
+      router.refresh();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const inputClass =
+    "rounded-md border border-border bg-background px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-accent";
+
+  return (
+    <form onSubmit={submit} className="flex flex-wrap items-center gap-2">
+      <input
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        placeholder="Username"
+        required
+        className={`w-32 ${inputClass}`}
+      />
+      <input
+        value={displayName}
+        onChange={(e) => setDisplayName(e.target.value)}
+        placeholder="Display name"
+        className={`w-44 ${inputClass}`}
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Initial password"
+        autoComplete="new-password"
+        required
+        className={`w-36 ${inputClass}`}
+      />
+      <select value={role} onChange={(e) => setRole(e.target.value)} className={inputClass}>
+        {ROLES.map((r) => (
+          <option key={r.value} value={r.value}>
+            {r.label}
+          </option>
+        ))}
+      </select>
+      <button
+        type="submit"
+        disabled={busy}
+        className="rounded-md bg-accent px-3 py-1.5 text-xs font-medium text-background hover:bg-accent-hover disabled:opacity-50"
+      >
+        {busy ? "Creating..." : "Create account"}
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </form>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+const OUTCOMES = [
+  { value: "solved", label: "Solved my problem" },
+  { value: "partial", label: "Partially" },
+  { value: "not_helpful", label: "Didn't help" },
+];
+
+// Signed-in readers are recorded by account, so only anonymous readers are asked for a name
+export function FeedbackWidget({ scriptId, signedIn }: { scriptId: number; signedIn: boolean }) {
+  const router = useRouter();
+  const [outcome, setOutcome] = useState<string | null>(null);
+  const [comment, setComment] = useState("");
+  const [reader, setReader] = useState("");
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!outcome) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/scripts/${scriptId}/feedback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ outcome, comment, reader }),
+      });
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        setError(body.error ?? `Request failed (${res.status})`);
+        return;
+      }
+      setSent(true);
+      router.refresh();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (sent) {
+    return <p className="text-sm text-muted">Thanks for the feedback.</p>;
+  }
+
+  const inputClass =
+    "w-full rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-accent";
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {OUTCOMES.map((o) => (
+          <button
+            key={o.value}
+            type="button"
+            onClick={() => setOutcome(o.value)}
+            className={`rounded-md border px-3 py-1.5 text-xs font-medium transition-colors ${
+              outcome === o.value
+                ? "border-accent bg-accent text-background"
+                : "border-border text-muted hover:bg-surface hover:text-foreground"
+            }`}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+      {outcome && (
+        <>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            placeholder={outcome === "solved" ? "Anything to add? (optional)" : "What was wrong or missing?"}
+            className={inputClass}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            {!signedIn && (
+              <input
+                value={reader}
+                onChange={(e) => setReader(e.target.value)}
+                placeholder="Your name (optional)"
+                className={`sm:w-56 ${inputClass}`}
+              />
+            )}
+            <button
+              type="submit"
+              disabled={busy}
+              className="rounded-md bg-accent px-4 py-2 text-xs font-medium text-background transition-colors hover:bg-accent-hover disabled:opacity-50"
+            >
+              {busy ? "Sending..." : "Send feedback"}
+            </button>
+          </div>
+        </>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  );
+}
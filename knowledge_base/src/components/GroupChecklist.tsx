@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+// Checkbox list that saves on every toggle. Used for group members and for the groups a
+// category or article is restricted to.
+export function GroupChecklist({
+  url,
+  field,
+  body = {},
+  options,
+  selected,
+}: {
+  url: string;
+  /** Request body key for the selected ids */
+  field: string;
+  /** Other request body fields */
+  body?: Record<string, unknown>;
+  options: { id: number; label: string }[];
+  selected: number[];
+}) {
+  const router = useRouter();
+  const [checked, setChecked] = useState(selected);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function toggle(id: number) {
+    const next = checked.includes(id) ? checked.filter((c) => c !== id) : [...checked, id];
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, [field]: next }),
+      });
+      if (!res.ok) {
+        const data = (await res.json().catch(() => ({}))) as { error?: string };
+        setError(data.error ?? `Request failed (${res.status})`);
+        return;
+      }
+      setChecked(next);
+      router.refresh();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (options.length === 0) return <span className="text-xs text-muted">None to choose from</span>;
+
+  return (
+    <span className="flex flex-wrap items-center gap-3">
+      {options.map((o) => (
+        <label key={o.id} className="flex items-center gap-1 text-xs">
+          <input
+            type="checkbox"
+            checked={checked.includes(o.id)}
+            disabled={busy}
+            onChange={() => toggle(o.id)}
+            className="accent-accent"
+          />
+          {o.label}
+        </label>
+      ))}
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </span>
+  );
+}
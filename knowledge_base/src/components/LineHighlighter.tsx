@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Highlights the lines named in the URL hash (#L10 or #L10-L20) inside the source view.
+// Shift-clicking a line number extends the current selection into a range.
+
+/** The line range in `hash`, cut to the file's lines; null for anything else, including reversed ranges. */
+function parseHash(hash: string, lineCount: number): [number, number] | null {
+  const m = hash.match(/^#L(\d+)(?:-L?(\d+))?$/);
+  if (!m) return null;
+  const start = Math.max(Number(m[1]), 1);
+  const end = Math.min(m[2] ? Number(m[2]) : start, lineCount);
+  return start <= end ? [start, end] : null;
+}
+
+export function LineHighlighter({ containerId, lineCount }: { containerId: string; lineCount: number }) {
+  useEffect(() => {
+    const container = document.getElementById(containerId);
+    if (!container) return;
+
+    function apply(scroll: boolean) {
+      container!
+        .querySelectorAll("[data-highlighted]")
+        .forEach((el) => el.removeAttribute("data-highlighted"));
+      const range = parseHash(window.location.hash, lineCount);
+      if (!range) return;
+      for (let n = range[0]; n <= range[1]; n++) {
+        document.getElementById(`L${n}`)?.setAttribute("data-highlighted", "");
+      }
+      if (scroll) document.getElementById(`L${range[0]}`)?.scrollIntoView({ block: "center" });
+    }
+
+    function onClick(e: MouseEvent) {
+      const link = (e.target as HTMLElement).closest("a[data-line]");
+      if (!link) return;
+      e.preventDefault();
+      const line = Number(link.getAttribute("data-line"));
+      const current = parseHash(window.location.hash, lineCount);
+      const hash =
+        e.shiftKey && current
+          ? `#L${Math.min(current[0], line)}-L${Math.max(current[0], line)}`
+          : `#L${line}`;
+      history.replaceState(null, "", hash);
+      apply(false);
+    }
+
+    const onHashChange = () => apply(true);
+    apply(true);
+    window.addEventListener("hashchange", onHashChange);
+    container.addEventListener("click", onClick);
+    return () => {
+      window.removeEventListener("hashchange", onHashChange);
+      container.removeEventListener("click", onClick);
+    };
+  }, [containerId, lineCount]);
+
+  return null;
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export function MarkReviewedButton({ scriptId, confidence }: { scriptId: number; confidence: number }) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [newConfidence, setNewConfidence] = useState(String(confidence));
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/scripts/${scriptId}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        // Only send confidence when the reviewer changed it
+        body: JSON.stringify(Number(newConfidence) !== confidence ? { confidence: Number(newConfidence) } : {}),
+      });
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        setError(body.error ?? `Request failed (${res.status})`);
+        return;
+      }
+      setOpen(false);
+      router.refresh();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="rounded-md border border-border px-2 py-1 text-xs text-muted transition-colors hover:bg-surface hover:text-foreground"
+      >
+        Mark reviewed
+      </button>
+    );
+  }
+
+  const inputClass =
+    "rounded-md border border-border bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-accent";
+
+  return (
+    <form onSubmit={submit} className="flex flex-wrap items-center gap-2">
+      <label className="flex items-center gap-1 text-xs text-muted">
+        Confidence
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={newConfidence}
+          onChange={(e) => setNewConfidence(e.target.value)}
+          className={`w-16 ${inputClass}`}
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={busy}
+        className="rounded-md bg-accent px-2 py-1 text-xs font-medium text-background hover:bg-accent-hover disabled:opacity-50"
+      >
+        {busy ? "Saving..." : "Reviewed"}
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </form>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export function ReplacementForm({
+  scriptId,
+  current,
+  replacements,
+}: {
+  scriptId: number;
+  /** Id of the current replacement, if any */
+  current: number | null;
+  replacements: { id: number; name: string }[];
+}) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [replacementId, setReplacementId] = useState(current === null ? "" : String(current));
+  const [reason, setReason] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setErrors([]);
+    try {
+      const res = await fetch(`/api/scripts/${scriptId}/replacement`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ replacementId: replacementId ? Number(replacementId) : null, reason }),
+      });
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string; problems?: string[] };
+        setErrors(body.problems?.length ? body.problems : [body.error ?? `Request failed (${res.status})`]);
+        return;
+      }
+      setOpen(false);
+      setReason("");
+      router.refresh();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="rounded-md border border-border px-2 py-1 text-xs text-muted transition-colors hover:bg-surface hover:text-foreground"
+      >
+        {current === null ? "Name a replacement" : "Change replacement"}
+      </button>
+    );
+  }
+
+  const inputClass =
+    "rounded-md border border-border bg-background px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-accent";
+
+  return (
+    <form onSubmit={submit} className="flex flex-wrap items-center gap-2">
+      <select value={replacementId} onChange={(e) => setReplacementId(e.target.value)} className={inputClass}>
+        <option value="">No replacement</option>
+        {replacements.map((r) => (
+          <option key={r.id} value={r.id}>
+            {r.name}
+          </option>
+        ))}
+      </select>
+      {replacementId && (
+        <input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Why it replaces this article"
+          required
+          className={`w-72 ${inputClass}`}
+        />
+      )}
+      <button
+        type="submit"
+        disabled={busy}
+        className="rounded-md bg-accent px-3 py-1.5 text-xs font-medium text-background hover:bg-accent-hover disabled:opacity-50"
+      >
+        {busy ? "Saving..." : "Save"}
+      </button>
+      {errors.map((e) => (
+        <span key={e} className="text-xs text-red-600">
+          {e}
+        </span>
+      ))}
+    </form>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+const OUTCOMES = [
+  { value: "resolved", label: "Resolved" },
+  { value: "partially_resolved", label: "Partially resolved" },
+  { value: "not_resolved", label: "Not resolved" },
+];
+
+export function ReuseForm({ scriptId }: { scriptId: number }) {
+  const router = useRouter();
+  const [incidentRef, setIncidentRef] = useState("");
+  const [outcome, setOutcome] = useState(OUTCOMES[0].value);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/scripts/${scriptId}/reuse`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ incidentRef, outcome }),
+      });
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        setError(body.error ?? `Request failed (${res.status})`);
+        return;
+      }
+      setIncidentRef("");
+      router.refresh();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const inputClass =
+    "rounded-md border border-border bg-background px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-accent";
+
+  return (
+    <form onSubmit={submit} className="flex flex-wrap items-center gap-2">
+      <input
+        value={incidentRef}
+        onChange={(e) => setIncidentRef(e.target.value)}
+        placeholder="Incident / ticket (e.g. INC0012345)"
+        required
+        className={`w-56 ${inputClass}`}
+      />
+      <select value={outcome} onChange={(e) => setOutcome(e.target.value)} className={inputClass}>
+        {OUTCOMES.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+      <button
+        type="submit"
+        disabled={busy}
+        className="rounded-md bg-accent px-3 py-1.5 text-xs font-medium text-background hover:bg-accent-hover disabled:opacity-50"
+      >
+        {busy ? "Linking..." : "Link incident"}
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </form>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+type TextFields = {
+  synopsis: string;
+  description: string;
+  environment: string;
+  resolution: string;
+  cause: string;
+};
+
+const FIELDS: { key: keyof TextFields; label: string; rows: number }[] = [
+  { key: "synopsis", label: "Synopsis", rows: 2 },
+  { key: "description", label: "Description", rows: 5 },
+  { key: "environment", label: "Environment", rows: 2 },
+  { key: "cause", label: "Cause / Use Case", rows: 2 },
+  { key: "resolution", label: "Resolution", rows: 5 },
+];
+
+export function ScriptEditForm({
+  scriptId,
+  version,
+  fields,
+  tags,
+  parameters,
+}: {
+  scriptId: number;
+  version: number;
+  fields: TextFields;
+  tags: string[];
+  parameters: { name: string; description: string }[];
+}) {
+  const router = useRouter();
+  const [values, setValues] = useState(fields);
+  const [tagText, setTagText] = useState(tags.join(", "));
+  const [paramValues, setParamValues] = useState(parameters);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+
+    // Only send what changed, so untouched fields keep following the script source
+    const body: Record<string, unknown> = {};
+    for (const { key } of FIELDS) {
+      if (values[key] !== fields[key]) body[key] = values[key];
+    }
+    const newTags = tagText.split(",").map((t) => t.trim()).filter(Boolean);
+    if (newTags.join(",") !== tags.join(",")) body.tags = newTags;
+    const changedParams = paramValues.filter((p, i) => p.description !== parameters[i].description);
+    if (changedParams.length) body.parameters = changedParams;
+
+    if (Object.keys(body).length === 0) {
+      setErrors(["Nothing has changed"]);
+      return;
+    }
+
+    setBusy(true);
+    setErrors([]);
+    try {
+      const res = await fetch(`/api/scripts/${scriptId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", "If-Match": `"${version}"` },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const result = (await res.json().catch(() => ({}))) as { error?: string; problems?: string[] };
+        const message =
+          res.status === 412 ? "This article was changed by someone else. Reload the page to get their changes." : result.error;
+        setErrors(result.problems?.length ? result.problems : [message ?? `Request failed (${res.status})`]);
+        return;
+      }
+      router.refresh();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const inputClass =
+    "w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-accent";
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      {FIELDS.map(({ key, label, rows }) => (
+        <label key={key} className="block space-y-1 text-xs font-medium text-muted">
+          <span>{label}</span>
+          <textarea
+            value={values[key]}
+            onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+            rows={rows}
+            className={inputClass}
+          />
+        </label>
+      ))}
+
+      <label className="block space-y-1 text-xs font-medium text-muted">
+        <span>Tags (comma separated)</span>
+        <input value={tagText} onChange={(e) => setTagText(e.target.value)} className={inputClass} />
+      </label>
+
+      {paramValues.length > 0 && (
+        <fieldset className="space-y-2">
+          <legend className="text-xs font-medium text-muted">Parameter descriptions</legend>
+          {paramValues.map((p, i) => (
+            <label key={p.name} className="block space-y-1 text-xs text-muted">
+              <span className="font-mono">-{p.name}</span>
+              <input
+                value={p.description}
+                onChange={(e) =>
+                  setParamValues(paramValues.map((q, j) => (j === i ? { ...q, description: e.target.value } : q)))
+                }
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      {errors.map((p) => (
+        <p key={p} className="text-xs text-red-600">
+          {p}
+        </p>
+      ))}
+      <button
+        type="submit"
+        disabled={busy}
+        className="rounded-md bg-accent px-4 py-2 text-xs font-medium text-background transition-colors hover:bg-accent-hover disabled:opacity-50"
+      >
+        {busy ? "Saving..." : "Save changes"}
+      </button>
+    </form>
+  );
+}
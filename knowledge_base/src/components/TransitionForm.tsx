@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export function TransitionForm({
+  scriptId,
+  allowed,
+  problems,
+  replacements = [],
+}: {
+  scriptId: number;
+  allowed: string[];
+  /** Content rules each target state currently fails, keyed by state */
+  problems: Record<string, string[]>;
+  /** Articles that can be named as the replacement when retiring */
+  replacements?: { id: number; name: string }[];
+}) {
+  const router = useRouter();
+  const [to, setTo] = useState(allowed[0] ?? "");
+  const [reason, setReason] = useState("");
+  const [replacementId, setReplacementId] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  if (allowed.length === 0) return null;
+  const blocked = problems[to] ?? [];
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setErrors([]);
+    try {
+      const res = await fetch(`/api/scripts/${scriptId}/transition`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          to,
+          reason,
+          replacementId: to === "retired" && replacementId ? Number(replacementId) : null,
+        }),
+      });
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string; problems?: string[] };
+        setErrors(body.problems?.length ? body.problems : [body.error ?? `Request failed (${res.status})`]);
+        return;
+      }
+      setReason("");
+      setReplacementId("");
+      router.refresh();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const inputClass =
+    "w-full rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-accent";
+
+  return (
+    <form onSubmit={submit} className="space-y-3 rounded-lg border border-border p-5">
+      <label className="block space-y-1 text-xs font-medium text-muted sm:w-1/2">
+        <span>Move to</span>
+        <select value={to} onChange={(e) => setTo(e.target.value)} className={inputClass}>
+          {allowed.map((s) => (
+            <option key={s} value={s}>
+              {s.charAt(0).toUpperCase() + s.slice(1)}
+            </option>
+          ))}
+        </select>
+      </label>
+      {to === "retired" && replacements.length > 0 && (
+        <label className="block space-y-1 text-xs font-medium text-muted sm:w-1/2">
+          <span>Replaced by</span>
+          <select value={replacementId} onChange={(e) => setReplacementId(e.target.value)} className={inputClass}>
+            <option value="">No replacement</option>
+            {replacements.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label className="block space-y-1 text-xs font-medium text-muted">
+        <span>{to === "retired" && replacementId ? "Reason (shown to readers of the retired article)" : "Reason"}</span>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          required
+          rows={2}
+          className={inputClass}
+        />
+      </label>
+      {[...blocked, ...errors].map((p) => (
+        <p key={p} className="text-xs text-red-600">
+          {p}
+        </p>
+      ))}
+      <button
+        type="submit"
+        disabled={busy || blocked.length > 0}
+        className="rounded-md bg-accent px-4 py-2 text-xs font-medium text-background transition-colors hover:bg-accent-hover disabled:opacity-50"
+      >
+        {busy ? "Saving..." : "Change state"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+
+type SessionUser = { display_name: string; role: string };
+
+// Lives in the root layout, so it asks the API who is signed in instead of making every page dynamic
+export function UserMenu() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [user, setUser] = useState<SessionUser | null | undefined>(undefined);
+
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((res) => res.json())
+      .then((body: { user: SessionUser | null }) => setUser(body.user))
+      .catch(() => setUser(null));
+  }, [pathname]);
+
+  async function signOut() {
+    await fetch("/api/auth/logout", { method: "POST" });
+    setUser(null);
+    router.refresh();
+  }
+
+  if (user === undefined) return null;
+  if (!user) {
+    return (
+      <a
+        href={`/login?next=${encodeURIComponent(pathname)}`}
+        className="text-muted transition-colors hover:text-foreground"
+      >
+        Sign in
+      </a>
+    );
+  }
+  return (
+    <span className="flex items-center gap-2">
+      <span className="text-xs text-muted" title={user.role}>
+        {user.display_name}
+      </span>
+      <button onClick={signOut} className="text-muted transition-colors hover:text-foreground">
+        Sign out
+      </button>
+    </span>
+  );
+}
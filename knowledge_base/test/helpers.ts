@@ -0,0 +1,26 @@
+import { createUser, Role, User } from "../lib/auth";
+import { getDb } from "../lib/db";
+
+// Every test file runs in its own process with a private in-memory database. This has to be set
+// before anything calls getDb().
+process.env.KB_DB_PATH = ":memory:";
+
+export function addCategory(slug: string): number {
+  const db = getDb();
+  const result = db
+    .prepare(`INSERT INTO categories (slug, name) VALUES (?, ?)`)
+    .run(slug, slug.replace(/^\d+-/, ""));
+  return Number(result.lastInsertRowid);
+}
+
+export function addScript(name: string, categoryId: number, author: string | null = null): number {
+  const db = getDb();
+  const result = db
+    .prepare(`INSERT INTO scripts (category_id, name, file_path, author) VALUES (?, ?, ?, ?)`)
+    .run(categoryId, name, `${name}.ps1`, author);
+  return Number(result.lastInsertRowid);
+}
+
+export function addUser(username: string, role: Role, displayName = username): User {
+  return createUser(username, displayName, "correct horse", role);
+}
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { getDb, getScriptByName, getTagsForScript } from "../lib/db";
+import { editScript } from "../lib/edit";
+import { DiscoveredScript, KcsMetadata, syncScripts } from "../lib/ingest";
+import { recordTransition } from "../lib/kcs";
+import { parseScript } from "../lib/powershell";
+import { getRevisions } from "../lib/revisions";
+import { addCategory, addUser } from "./helpers";
+
+function discovered(name: string, synopsis: string): DiscoveredScript {
+  return {
+    name,
+    filePath: `01-Infrastructure/${name}.ps1`,
+    categorySlug: "01-infrastructure",
+    subcategory: null,
+    parsed: parseScript(`<#\n.SYNOPSIS\n${synopsis}\n#>\nparam()\n`),
+  };
+}
+
+function script(name: string) {
+  const s = getScriptByName(name);
+  assert.ok(s, `${name} exists`);
+  return s;
+}
+
+const tags = (name: string) => getTagsForScript(script(name).id).map((t) => t.name).sort();
+
+describe("repository sync", () => {
+  const scripts = ["Get-Counted", "Get-Edited", "Get-Unlisted", "Get-Staged", "Get-Removed"].map((name) =>
+    discovered(name, `${name} synopsis`)
+  );
+  const sidecar = (): Record<string, KcsMetadata> =>
+    Object.fromEntries(
+      scripts.map((s) => [
+        s.name,
+        {
+          state: "published",
+          environment: "Windows Server",
+          cause: "Accounts drift",
+          resolution: "Run the report",
+          confidence: 80,
+          author: "Sam",
+          tags: ["ad", "users"],
+        },
+      ])
+    );
+  const sync = (metadata: Record<string, KcsMetadata>, found = scripts) => syncScripts(getDb(), found, metadata);
+
+  before(() => {
+    addCategory("01-infrastructure");
+    sync(sidecar());
+  });
+
+  it("changes nothing when run again on the same input", () => {
+    const versions = scripts.map((s) => script(s.name).version);
+    const revisions = scripts.map((s) => getRevisions(script(s.name).id).length);
+    const summary = sync(sidecar());
+    assert.deepEqual(summary.added, []);
+    assert.deepEqual(summary.updated, []);
+    assert.equal(summary.unchanged, scripts.length);
+    assert.deepEqual(scripts.map((s) => script(s.name).version), versions);
+    assert.deepEqual(scripts.map((s) => getRevisions(script(s.name).id).length), revisions);
+  });
+
+  it("keeps usage counters and contributors", () => {
+    const db = getDb();
+    const id = script("Get-Counted").id;
+    db.prepare(`UPDATE scripts SET view_count = 7 WHERE id = ?`).run(id);
+    db.prepare(`INSERT INTO contributors (script_id, name, contribution_type) VALUES (?, 'Kim', 'reviewer')`).run(id);
+    sync({ ...sidecar(), "Get-Counted": { state: "published", confidence: 60 } });
+
+    assert.equal(script("Get-Counted").view_count, 7);
+    assert.equal(script("Get-Counted").confidence, 60);
+    const names = db.prepare(`SELECT name FROM contributors WHERE script_id = ? ORDER BY name`).all(id);
+    assert.deepEqual(names, [{ name: "Kim" }, { name: "Sam" }]);
+  });
+
+  it("keeps fields and tags edited in the KB over the sidecar", () => {
+    const editor = addUser("editor", "contributor");
+    const { id, version } = script("Get-Edited");
+    editScript(id, { fields: { environment: "Edited in the KB" }, tags: ["kb-tag"] }, version, editor);
+    sync({ ...sidecar(), "Get-Edited": { environment: "Changed", cause: "New cause", tags: ["ad"] } });
+
+    const s = script("Get-Edited");
+    assert.equal(s.environment, "Edited in the KB");
+    assert.equal(s.cause, "New cause");
+    assert.deepEqual(tags("Get-Edited"), ["kb-tag"]);
+  });
+
+  it("leaves sidecar fields alone when the sidecar has no entry", () => {
+    const { ["Get-Unlisted"]: _, ...rest } = sidecar();
+    sync(rest);
+    const s = script("Get-Unlisted");
+    assert.equal(s.kcs_state, "published");
+    assert.equal(s.environment, "Windows Server");
+    assert.equal(s.confidence, 80);
+    assert.deepEqual(tags("Get-Unlisted"), ["ad", "users"]);
+  });
+
+  it("drops tags removed from the sidecar", () => {
+    sync({ ...sidecar(), "Get-Unlisted": { tags: ["users"] } });
+    assert.deepEqual(tags("Get-Unlisted"), ["users"]);
+  });
+
+  it("follows the sidecar state until the article is moved through the lifecycle", () => {
+    sync({ ...sidecar(), "Get-Staged": { state: "approved" } });
+    assert.equal(script("Get-Staged").kcs_state, "approved");
+
+    const db = getDb();
+    const { id } = script("Get-Staged");
+    db.prepare(`UPDATE scripts SET kcs_state = 'published' WHERE id = ?`).run(id);
+    recordTransition(db, id, "approved", "published", "Checked", "Pat");
+    sync({ ...sidecar(), "Get-Staged": { state: "draft" } });
+    assert.equal(script("Get-Staged").kcs_state, "published");
+  });
+
+  it("soft-retires scripts whose file is gone and restores them when it is back", () => {
+    const summary = sync(sidecar(), scripts.filter((s) => s.name !== "Get-Removed"));
+    assert.deepEqual(summary.retired, ["Get-Removed"]);
+    assert.equal(script("Get-Removed").kcs_state, "retired");
+
+    assert.deepEqual(sync(sidecar()).restored, ["Get-Removed"]);
+    assert.equal(script("Get-Removed").kcs_state, "published");
+  });
+});
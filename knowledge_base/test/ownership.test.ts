@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { linkUserRecords, updateUser, User } from "../lib/auth";
+import { getDb } from "../lib/db";
+import { addFeedback, FeedbackError, isFlagOwner, resolveFlag } from "../lib/feedback";
+import { addCategory, addScript, addUser } from "./helpers";
+
+describe("account links and flag ownership", () => {
+  let authored: number;
+  let teamArticle: number;
+  let author: User;
+  let reviewer: User;
+  let reader: User;
+
+  before(() => {
+    const category = addCategory("01-infrastructure");
+    authored = addScript("Get-Authored", category, "jdoe");
+    teamArticle = addScript("Get-TeamOwned", category, "MS Tools Team");
+    getDb()
+      .prepare(`INSERT INTO contributors (script_id, name, contribution_type) VALUES (?, ?, 'reviewer')`)
+      .run(teamArticle, "rvw");
+
+    author = addUser("jdoe", "contributor", "Jane Doe");
+    reviewer = addUser("rvw", "contributor");
+    reader = addUser("reader", "viewer", "MS Tools Team");
+  });
+
+  it("links authors and contributors by username", () => {
+    assert.equal(isFlagOwner(authored, author), true);
+    assert.equal(isFlagOwner(teamArticle, reviewer), true);
+    assert.equal(isFlagOwner(teamArticle, author), false);
+  });
+
+  it("never links by display name", () => {
+    assert.equal(isFlagOwner(teamArticle, reader), false);
+    updateUser(author.id, { displayName: "MS Tools Team" });
+    linkUserRecords(getDb());
+    assert.equal(isFlagOwner(teamArticle, author), false);
+  });
+
+  it("makes coaches and above owners of every article", () => {
+    const coach = addUser("coach", "coach");
+    assert.equal(isFlagOwner(authored, coach), true);
+    assert.equal(isFlagOwner(authored, null), false);
+  });
+
+  it("only lets owners resolve flags", () => {
+    const flag = addFeedback(authored, "not_helpful", "Fails on Server 2016", null);
+    assert.throws(
+      () => resolveFlag(authored, flag.id, reader),
+      (err: unknown) => err instanceof FeedbackError && err.status === 403
+    );
+    assert.equal(resolveFlag(authored, flag.id, author).status, "resolved");
+  });
+});
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { getContributorSummaries } from "../lib/contributors";
+import { getAllDocuments, getAllScripts, getDb, isScriptVisible, Viewer } from "../lib/db";
+import {
+  createGroup,
+  deleteGroup,
+  setCategoryGroups,
+  setGroupMembers,
+  setScriptGroups,
+  VisibilityError,
+} from "../lib/visibility";
+import { addCategory, addScript, addUser } from "./helpers";
+
+describe("visibility rules", () => {
+  let member: Viewer;
+  let outsider: Viewer;
+  let publisher: Viewer;
+  let secureCategory: number;
+  let adminsGroup: number;
+  let openScript: number;
+  let secureScript: number;
+  let leadsScript: number;
+
+  before(() => {
+    const open = addCategory("01-open");
+    secureCategory = addCategory("03-secure");
+    openScript = addScript("Get-Open", open);
+    secureScript = addScript("Set-Secure", secureCategory);
+    leadsScript = addScript("Get-LeadsOnly", open);
+
+    member = addUser("member", "contributor");
+    outsider = addUser("outsider", "coach");
+    publisher = addUser("pub", "publisher");
+
+    adminsGroup = createGroup("admins", "").id;
+    setGroupMembers(adminsGroup, [member!.id]);
+    setCategoryGroups(secureCategory, [adminsGroup]);
+    setScriptGroups(leadsScript, [createGroup("leads", "").id]);
+
+    const db = getDb();
+    const insertDoc = db.prepare(`INSERT INTO documents (file_path, title, content) VALUES (?, ?, '')`);
+    insertDoc.run("01-Open/README.md", "Open guide");
+    insertDoc.run("03-Secure/RBAC/README.md", "Secure guide");
+    insertDoc.run("README.md", "Top-level guide");
+    const credit = db.prepare(`INSERT INTO contributors (script_id, name, contribution_type) VALUES (?, 'Sam', 'author')`);
+    credit.run(openScript);
+    credit.run(secureScript);
+  });
+
+  it("hides articles in restricted categories from everyone outside the group", () => {
+    assert.equal(isScriptVisible(secureScript, member), true);
+    assert.equal(isScriptVisible(secureScript, outsider), false);
+    assert.equal(isScriptVisible(secureScript, null), false);
+    assert.equal(isScriptVisible(secureScript, publisher), true);
+  });
+
+  it("applies article rules on top of category rules", () => {
+    assert.equal(isScriptVisible(leadsScript, member), false);
+    assert.equal(isScriptVisible(leadsScript, publisher), true);
+    assert.deepEqual(
+      getAllScripts(null).map((s) => s.name),
+      ["Get-Open"]
+    );
+  });
+
+  it("gives documents the rule of the category folder they are in", () => {
+    const titles = (viewer: Viewer) => getAllDocuments(viewer).map((d) => d.title);
+    assert.deepEqual(titles(null), ["Open guide", "Top-level guide"]);
+    assert.deepEqual(titles(member), ["Open guide", "Secure guide", "Top-level guide"]);
+  });
+
+  it("leaves restricted articles out of contributor counts", () => {
+    const sam = (viewer: Viewer) => getContributorSummaries(viewer).find((c) => c.name === "Sam")?.articles;
+    assert.equal(sam(null), 1);
+    assert.equal(sam(member), 2);
+  });
+
+  it("refuses to delete a group that still restricts content", () => {
+    assert.throws(
+      () => deleteGroup(adminsGroup),
+      (err: unknown) => err instanceof VisibilityError && err.status === 409
+    );
+    assert.equal(isScriptVisible(secureScript, outsider), false);
+
+    setCategoryGroups(secureCategory, []);
+    deleteGroup(adminsGroup);
+    assert.equal(isScriptVisible(secureScript, outsider), true);
+  });
+});